@@ -3,6 +3,21 @@
 // Runtime types generated with workerd@1.20250617.0 2025-10-08 global_fetch_strictly_public,nodejs_compat
 declare namespace Cloudflare {
 	interface Env {
+		PLAYPHRASE_COOKIES?: string;
+		PLAYPHRASE_CSRF_TOKEN?: string;
+		VIDEOS_CACHE_TTL?: string;
+		LOG_LEVEL?: string;
+		RATE_LIMIT_CAPACITY?: string;
+		RATE_LIMIT_REFILL_PER_MINUTE?: string;
+		VIDEO_DETAILS_CONCURRENCY?: string;
+		API_KEYS?: string;
+		TRANSLATE_API_URL?: string;
+		TRANSLATE_API_KEY?: string;
+		SITE_URL?: string;
+		RATE_LIMIT_KV?: KVNamespace;
+		SESSION_KV?: KVNamespace;
+		PLAYLISTS_KV?: KVNamespace;
+		COLLECTIONS_KV?: KVNamespace;
 		ASSETS: Fetcher;
 	}
 }
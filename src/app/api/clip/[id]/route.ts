@@ -0,0 +1,35 @@
+import { NextRequest } from 'next/server';
+import { ApiError, handleRouteError } from '@/lib/api-error';
+import { fetchClip, hasResolvedClipUrl, isValidClipId } from '@/lib/clip-proxy';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { DEFAULT_PROVIDER, getProvider } from '@/lib/providers';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+// Streams a clip's video by clip id (`provider` defaults to playphrase),
+// honouring Range requests. Subtitles from /api/videos carry the path as `proxy`.
+export const GET = withRequestLogging(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const config = getConfig();
+
+    const { id } = await params;
+    const providerName = request.nextUrl.searchParams.get('provider') || DEFAULT_PROVIDER;
+    const provider = getProvider(providerName);
+    if (!provider) {
+      throw new ApiError('INVALID_PARAMS', `Unknown provider: ${providerName}`);
+    }
+    if (!isValidClipId(id)) {
+      throw new ApiError('INVALID_PARAMS', 'Invalid clip id');
+    }
+
+    // A player makes several range requests per clip; only the ones that
+    // cost an upstream lookup count against the rate limit
+    if (!hasResolvedClipUrl(provider.name, id)) {
+      await enforceRateLimit(request, config);
+    }
+
+    return await fetchClip(provider, id, request);
+  } catch (error) {
+    return handleRouteError(error, 'Error proxying clip');
+  }
+});
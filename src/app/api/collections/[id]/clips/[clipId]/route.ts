@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleRouteError } from '@/lib/api-error';
+import { findCollection, openCollections, removeClip, saveCollections, withUserCookie } from '@/lib/collections';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+export const DELETE = withRequestLogging(async (
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; clipId: string }> }
+) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    const { id, clipId } = await params;
+    const session = await openCollections(request, config);
+    removeClip(findCollection(session.document, id), clipId);
+    await saveCollections(session);
+
+    return withUserCookie(new NextResponse(null, { status: 204 }), session);
+  } catch (error) {
+    return handleRouteError(error, 'Error removing clip');
+  }
+});
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, handleRouteError } from '@/lib/api-error';
+import { addClip, findCollection, openCollections, parseClipInput, saveCollections, withUserCookie } from '@/lib/collections';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import type { ValidationIssue } from '@/lib/validation';
+
+// Saves a clip into a collection: `{ phrase, language, video, subtitle }`,
+// with `video` and `subtitle` as returned by /api/videos. Saving the same
+// video twice returns the existing entry.
+export const POST = withRequestLogging(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('INVALID_PARAMS', 'Request body must be JSON');
+    }
+
+    const issues: ValidationIssue[] = [];
+    const clip = parseClipInput(body, 'body', issues);
+    if (!clip) {
+      throw new ApiError('INVALID_PARAMS', 'Invalid clip', { details: { issues } });
+    }
+
+    const { id } = await params;
+    const session = await openCollections(request, config);
+    const saved = addClip(findCollection(session.document, id), clip);
+    await saveCollections(session);
+
+    return withUserCookie(NextResponse.json(saved, { status: 201 }), session);
+  } catch (error) {
+    return handleRouteError(error, 'Error saving clip');
+  }
+});
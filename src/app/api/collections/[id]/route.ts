@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleRouteError } from '@/lib/api-error';
+import { deleteCollection, openCollections, saveCollections, withUserCookie } from '@/lib/collections';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+// Deletes a collection and its clips. Favorites can't be deleted.
+export const DELETE = withRequestLogging(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    const { id } = await params;
+    const session = await openCollections(request, config);
+    deleteCollection(session.document, id);
+    await saveCollections(session);
+
+    return withUserCookie(new NextResponse(null, { status: 204 }), session);
+  } catch (error) {
+    return handleRouteError(error, 'Error deleting collection');
+  }
+});
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleRouteError } from '@/lib/api-error';
+import { openCollections, toExport, withUserCookie } from '@/lib/collections';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+// Every collection as a JSON file that /api/collections/import accepts,
+// including in another browser
+export const GET = withRequestLogging(async (request: NextRequest) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    const session = await openCollections(request, config);
+    return withUserCookie(NextResponse.json(toExport(session.document), {
+      headers: {
+        'Cache-Control': 'no-store',
+        'Content-Disposition': 'attachment; filename="phrase-to-clip-collections.json"',
+      },
+    }), session);
+  } catch (error) {
+    return handleRouteError(error, 'Error exporting collections');
+  }
+});
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, handleRouteError } from '@/lib/api-error';
+import { importCollections, MAX_IMPORT_BYTES, openCollections, saveCollections, withUserCookie } from '@/lib/collections';
+import { getConfig } from '@/lib/config';
+import { logger, withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+// Loads a file from /api/collections/export. Collections merge by name and
+// clips already saved are skipped; `replace=1` drops everything saved first.
+export const POST = withRequestLogging(async (request: NextRequest) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    const text = await request.text();
+    if (new TextEncoder().encode(text).length > MAX_IMPORT_BYTES) {
+      throw new ApiError('INVALID_PARAMS', `The import file must be at most ${MAX_IMPORT_BYTES / (1024 * 1024)} MB`);
+    }
+    let body: unknown;
+    try {
+      body = JSON.parse(text);
+    } catch {
+      throw new ApiError('INVALID_PARAMS', 'Request body must be JSON');
+    }
+
+    const session = await openCollections(request, config);
+    const added = importCollections(session.document, body, request.nextUrl.searchParams.get('replace') === '1');
+    await saveCollections(session);
+    logger.info('Collections imported', { added });
+
+    return withUserCookie(NextResponse.json({ added, ...session.document }), session);
+  } catch (error) {
+    return handleRouteError(error, 'Error importing collections');
+  }
+});
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, handleRouteError } from '@/lib/api-error';
+import {
+  createCollection,
+  openCollections,
+  parseCollectionName,
+  saveCollections,
+  withUserCookie,
+} from '@/lib/collections';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { isRecord } from '@/lib/validation';
+
+// The caller's collections with every saved clip. First-time callers get an
+// empty favorites collection and their anonymous id cookie.
+export const GET = withRequestLogging(async (request: NextRequest) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    const session = await openCollections(request, config);
+    return withUserCookie(NextResponse.json(session.document, {
+      headers: { 'Cache-Control': 'no-store' },
+    }), session);
+  } catch (error) {
+    return handleRouteError(error, 'Error loading collections');
+  }
+});
+
+// Creates an empty collection: `{ name }`
+export const POST = withRequestLogging(async (request: NextRequest) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('INVALID_PARAMS', 'Request body must be JSON');
+    }
+
+    const session = await openCollections(request, config);
+    const collection = createCollection(session.document, parseCollectionName(isRecord(body) ? body.name : undefined));
+    await saveCollections(session);
+
+    return withUserCookie(NextResponse.json(collection, { status: 201 }), session);
+  } catch (error) {
+    return handleRouteError(error, 'Error creating collection');
+  }
+});
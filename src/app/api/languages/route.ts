@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '@/lib/languages';
+import { withRequestLogging } from '@/lib/logger';
+
+// The languages `language` accepts across the API, with display names and
+// the rules used to turn a phrase into a search query in each. The list only
+// changes with a deploy, so it's cached for a day.
+export const GET = withRequestLogging(async () => {
+  return NextResponse.json({ default: DEFAULT_LANGUAGE, languages: LANGUAGES }, {
+    headers: { 'Cache-Control': 'public, max-age=86400' },
+  });
+});
@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleRouteError } from '@/lib/api-error';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { buildOEmbed, parseOEmbedQuery } from '@/lib/oembed';
+
+// oEmbed for phrase links: `?url=<search or embed page URL>[&maxwidth=&maxheight=]`.
+// Responds with a `video` whose `html` is an iframe of the `/embed` player.
+// Nothing upstream is called, so it isn't rate limited.
+export const GET = withRequestLogging(async (request: NextRequest) => {
+  try {
+    // The configured origin when there is one, so links match the previews
+    const origin = getConfig().siteOrigin ?? request.nextUrl.origin;
+    const query = parseOEmbedQuery(request.nextUrl.searchParams, origin);
+
+    return NextResponse.json(buildOEmbed(query, origin), {
+      headers: { 'Cache-Control': 'public, max-age=86400' },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Error building oEmbed response');
+  }
+});
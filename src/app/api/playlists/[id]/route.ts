@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, handleRouteError } from '@/lib/api-error';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { getPlaylist } from '@/lib/playlists';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+// The resolved clip sequence of a saved playlist, section by section.
+// Playlists never change once created, so they can be cached by clients.
+export const GET = withRequestLogging(async (request: NextRequest, { params }: { params: Promise<{ id: string }> }) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    const { id } = await params;
+    const playlist = await getPlaylist(id, config);
+    if (!playlist) {
+      throw new ApiError('NO_RESULTS', `Playlist not found: ${id}`);
+    }
+
+    return NextResponse.json(playlist, {
+      headers: { 'Cache-Control': 'public, max-age=3600' },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Error loading playlist');
+  }
+});
@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, handleRouteError } from '@/lib/api-error';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { createPlaylist, parsePlaylistRequest } from '@/lib/playlists';
+import { enforceRateLimit } from '@/lib/rate-limit';
+
+// Creates a playlist from an ordered list of phrases:
+//   { title?, items: [{ phrase, language?, count?, provider? }] }
+// Every phrase is resolved up front; the response carries the short id used
+// by GET /api/playlists/:id and the /playlists/:id page.
+export const POST = withRequestLogging(async (request: NextRequest) => {
+  try {
+    const config = getConfig();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('INVALID_PARAMS', 'Request body must be JSON');
+    }
+
+    const playlistRequest = parsePlaylistRequest(body);
+    await enforceRateLimit(request, config, playlistRequest.items.length);
+    const playlist = await createPlaylist(playlistRequest, config, () => enforceRateLimit(request, config));
+    return NextResponse.json(playlist, {
+      status: 201,
+      headers: { Location: `/api/playlists/${playlist.id}` },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Error creating playlist');
+  }
+});
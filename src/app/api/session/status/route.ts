@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleRouteError } from '@/lib/api-error';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { getPlayphraseSessionStatus } from '@/lib/providers/playphrase-session';
+import { requireApiKey } from '@/lib/rate-limit';
+
+// Diagnostic view of the cached playphrase session, for operators holding an
+// X-Api-Key. Reports where the credentials came from and when they expire,
+// never the values themselves.
+export const GET = withRequestLogging(async (request: NextRequest) => {
+  try {
+    requireApiKey(request, getConfig());
+    const status = await getPlayphraseSessionStatus();
+    return NextResponse.json(status, {
+      headers: { 'Cache-Control': 'no-store' },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Error reading session status');
+  }
+});
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { handleRouteError } from '@/lib/api-error';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { parseTranslateQuery, requireTranslation, translate } from '@/lib/translation';
+
+// Translates one subtitle line for study mode: `?text=...&from=es&to=en`.
+// Responds with `{ text, from, to, translation }`.
+export const GET = withRequestLogging(async (request: NextRequest) => {
+  try {
+    const config = getConfig();
+    requireTranslation(config);
+    const query = parseTranslateQuery(request.nextUrl.searchParams);
+    await enforceRateLimit(request, config);
+
+    const translation = await translate(query, config);
+    return NextResponse.json({ ...query, translation }, {
+      headers: { 'Cache-Control': 'public, max-age=86400' },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Error translating subtitle');
+  }
+});
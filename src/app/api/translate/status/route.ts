@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { handleRouteError } from '@/lib/api-error';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+
+// Whether translations are set up (`TRANSLATE_API_URL`), so study mode only
+// offers them when /api/translate can answer. Responds with `{ enabled }`.
+export const GET = withRequestLogging(async () => {
+  try {
+    const { translation } = getConfig();
+    return NextResponse.json({ enabled: translation !== undefined }, {
+      headers: { 'Cache-Control': 'public, max-age=300' },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Error reading translation status');
+  }
+});
@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server';
+import { ApiError, handleRouteError } from '@/lib/api-error';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { parseBatchRequest, streamBatch } from '@/lib/video-batch';
+
+// Runs many /api/videos searches in one request. The body is a JSON array
+// of `{ phrase, language?, limit?, ... }` (any /api/videos parameter); the
+// response is NDJSON with one line per item as it completes, then
+// `{ done, total, failed }`. Each item costs one rate-limit token, plus one
+// per fallback variant it has to try.
+export const POST = withRequestLogging(async (request: NextRequest) => {
+  try {
+    const config = getConfig();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      throw new ApiError('INVALID_PARAMS', 'Request body must be JSON');
+    }
+
+    const items = parseBatchRequest(body);
+    await enforceRateLimit(request, config, items.length);
+
+    return new Response(streamBatch(items, config, () => enforceRateLimit(request, config)), {
+      headers: {
+        'Content-Type': 'application/x-ndjson; charset=utf-8',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Error starting batch');
+  }
+});
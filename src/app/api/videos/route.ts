@@ -1,433 +1,44 @@
 import { NextRequest, NextResponse } from 'next/server';
-
-interface Word {
-  start?: number;
-  end?: number;
-  text?: string;
-  score?: number;
-  index?: number;
-  'searched?'?: boolean;
-}
-
-interface PhraseResult {
-  id?: string;
-  'video-url'?: string;
-  video_url?: string;
-  videoUrl?: string;
-  text?: string;
-  start?: number;
-  end?: number;
-  words?: Word[];
-  [key: string]: string | number | Word[] | undefined;
-}
-
-const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/26.0.1 Safari/605.1.15';
-
-// Try to get cookies and CSRF token from environment variables first
-function getAuthFromEnv(): { cookies?: string; csrfToken?: string } {
-  // In Cloudflare Workers, use globalThis or request context for env vars
-  // For Next.js on Cloudflare, environment variables are available via process.env in Node.js context
-  // but may need to be passed through the request context in Workers
-  try {
-    const cookies = typeof process !== 'undefined' && process.env ? process.env.PLAYPHRASE_COOKIES : undefined;
-    const csrfToken = typeof process !== 'undefined' && process.env ? process.env.PLAYPHRASE_CSRF_TOKEN : undefined;
-    return { cookies, csrfToken };
-  } catch {
-    return {};
-  }
-}
-
-async function getSessionCookies(): Promise<{ cookies: string; csrfToken: string }> {
-  // First, try to get from environment variables
-  const envAuth = getAuthFromEnv();
-  console.log('Environment auth check:', {
-    hasCookies: !!envAuth.cookies,
-    hasCsrfToken: !!envAuth.csrfToken,
-    cookiesLength: envAuth.cookies?.length || 0,
-    csrfTokenLength: envAuth.csrfToken?.length || 0,
-  });
-  
-  if (envAuth.cookies && envAuth.csrfToken) {
-    console.log('Using environment variables for auth');
-    return { cookies: envAuth.cookies, csrfToken: envAuth.csrfToken };
-  }
-  
-  console.log('Environment variables not found, attempting to fetch cookies/CSRF token from homepage');
-
-  try {
-    // Fetch the homepage to get cookies and CSRF token
-    const response = await fetch('https://www.playphrase.me/', {
-      method: 'GET',
-      headers: {
-        'User-Agent': USER_AGENT,
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.9',
-        'Referer': 'https://www.playphrase.me/',
-      },
-    });
-
-    if (!response.ok) {
-      return { cookies: '', csrfToken: '' };
-    }
-
-    // Parse all Set-Cookie headers properly
-    let setCookieHeaders: string[] = [];
-    try {
-      if (typeof response.headers.getSetCookie === 'function') {
-        setCookieHeaders = response.headers.getSetCookie();
-      } else {
-        // Fallback: try to get set-cookie header and parse it
-        const setCookieHeader = response.headers.get('set-cookie');
-        if (setCookieHeader) {
-          setCookieHeaders = [setCookieHeader];
-        }
-      }
-    } catch {
-      const setCookieHeader = response.headers.get('set-cookie');
-      if (setCookieHeader) {
-        setCookieHeaders = [setCookieHeader];
-      }
-    }
-    
-    const cookies = setCookieHeaders
-      .map(cookie => {
-        const nameValue = cookie.split(';')[0].trim();
-        return nameValue;
-      })
-      .filter(Boolean)
-      .join('; ');
-
-    console.log('Fetched cookies from homepage:', cookies ? `${cookies.substring(0, 100)}...` : 'none');
-
-    // Try to extract CSRF token from HTML
-    const html = await response.text();
-    let csrfToken = '';
-    
-    // Try multiple patterns to find CSRF token
-    const patterns = [
-      /name=["']csrf[_-]?token["'][^>]*value=["']([^"']+)/i,
-      /csrf[_-]?token['":\s]*['"]?([a-zA-Z0-9+\/=]+)/i,
-      /["']_token["']:\s*["']([^"']+)/i,
-      /meta[^>]*name=["']csrf[_-]?token["'][^>]*content=["']([^"']+)/i,
-    ];
-    
-    for (const pattern of patterns) {
-      const match = html.match(pattern);
-      if (match && match[1]) {
-        csrfToken = match[1];
-        console.log('Found CSRF token from HTML:', csrfToken.substring(0, 50) + '...');
-        break;
-      }
-    }
-    
-    if (!csrfToken) {
-      console.log('CSRF token not found in HTML, checking if cookies alone are sufficient');
-    }
-
-    // If we found cookies but no CSRF token, try fetching from a search page
-    if (cookies && !csrfToken) {
-      try {
-        const searchTest = await fetch('https://www.playphrase.me/api-langs/v1/phrases/search?q=test&limit=1&language=en&platform=desktop%20safari&skip=0', {
-          method: 'GET',
-          headers: {
-            'User-Agent': USER_AGENT,
-            'Accept': 'application/json',
-            'Cookie': cookies,
-            'Referer': 'https://www.playphrase.me/',
-          },
-        });
-        // Check if it works without CSRF token (some APIs don't need it for GET)
-        if (searchTest.ok) {
-          // Token might not be needed for GET requests
-          csrfToken = '';
-        }
-      } catch {
-        // Ignore
-      }
-    }
-
-    return { cookies, csrfToken };
-  } catch {
-    return { cookies: '', csrfToken: '' };
-  }
-}
-
-async function searchPhrases(q: string, language: string, limit: number = 5, cookies?: string, csrfToken?: string): Promise<PhraseResult[]> {
-  // English uses a different endpoint: /api/v1/phrases/search
-  // Other languages use: /api-langs/v1/phrases/search
-  const baseUrl = language === 'en' 
-    ? 'https://www.playphrase.me/api/v1/phrases/search'
-    : 'https://www.playphrase.me/api-langs/v1/phrases/search';
-  
-  const searchUrl = new URL(baseUrl);
-  
-  // For English, the query should be wrapped in quotes
-  const queryValue = language === 'en' ? `"${q}"` : q;
-  searchUrl.searchParams.set('q', queryValue);
-  searchUrl.searchParams.set('limit', limit.toString());
-  searchUrl.searchParams.set('language', language);
-  searchUrl.searchParams.set('platform', 'desktop safari');
-  searchUrl.searchParams.set('skip', '0');
-  
-  console.log('Search API URL:', searchUrl.toString());
-
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-    'Authorization': 'Token',
-    'Sec-Fetch-Site': 'same-origin',
-    'Accept-Language': 'en-US,en;q=0.9',
-    'Accept-Encoding': 'gzip, deflate, br',
-    'Sec-Fetch-Mode': 'cors',
-    'User-Agent': USER_AGENT,
-    'Referer': 'https://www.playphrase.me/',
-    'Sec-Fetch-Dest': 'empty',
+import { handleRouteError } from '@/lib/api-error';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { matchesEtag, type CachedBody } from '@/lib/response-cache';
+import { loadVideos, parseVideosQuery, type CacheStatus } from '@/lib/video-search';
+
+// Serves a JSON body with an ETag, answering 304 when the client already has it
+function jsonWithEtag(request: NextRequest, cached: CachedBody, cacheControl: string, cacheStatus: CacheStatus): NextResponse {
+  const headers = {
+    'Cache-Control': cacheControl,
+    'ETag': cached.etag,
+    'X-Cache': cacheStatus,
   };
 
-  if (cookies) {
-    headers['Cookie'] = cookies;
-  }
-  if (csrfToken) {
-    headers['X-Csrf-Token'] = csrfToken;
+  if (matchesEtag(request.headers.get('If-None-Match'), cached.etag)) {
+    return new NextResponse(null, { status: 304, headers });
   }
 
-  console.log('Search API headers:', JSON.stringify(headers, null, 2).substring(0, 500));
-  console.log('Search API request - cookies present:', !!cookies, 'CSRF token present:', !!csrfToken);
-
-  const response = await fetch(searchUrl.toString(), {
-    method: 'GET',
-    headers,
-    cf: {
-      cacheTtl: 3600,
-      cacheEverything: false,
-    },
+  return new NextResponse(cached.body, {
+    headers: { ...headers, 'Content-Type': 'application/json' },
   });
-
-  if (!response.ok) {
-    // Try to get more details from the response
-    const errorText = await response.text().catch(() => response.statusText);
-    throw new Error(`Search API failed: ${response.status} ${response.statusText}. Response: ${errorText.substring(0, 200)}`);
-  }
-
-  const responseText = await response.text();
-  console.log('Search API raw response:', responseText.substring(0, 500));
-  
-  let data: unknown;
-  try {
-    data = JSON.parse(responseText);
-  } catch {
-    console.error('Failed to parse JSON response:', responseText.substring(0, 200));
-    return [];
-  }
-
-  console.log('Search API parsed data type:', typeof data, 'Is array:', Array.isArray(data));
-  if (Array.isArray(data)) {
-    console.log('Search API returned array with', data.length, 'items');
-    if (data.length > 0) {
-      console.log('First item structure:', JSON.stringify(data[0]).substring(0, 300));
-    }
-    return data as PhraseResult[];
-  }
-  
-  if (data && typeof data === 'object') {
-    const obj = data as Record<string, unknown>;
-    console.log('Search API returned object with keys:', Object.keys(obj));
-    
-    // The API returns results in a 'phrases' array
-    if ('phrases' in obj && Array.isArray(obj.phrases)) {
-      console.log('Found phrases array with', obj.phrases.length, 'items');
-      if (obj.phrases.length > 0) {
-        console.log('First phrase structure:', JSON.stringify(obj.phrases[0]).substring(0, 300));
-      }
-      return obj.phrases as PhraseResult[];
-    }
-    
-    // Try other common property names as fallback
-    if ('results' in obj && Array.isArray(obj.results)) {
-      console.log('Found results array with', obj.results.length, 'items');
-      if (obj.results.length > 0) {
-        console.log('First result structure:', JSON.stringify(obj.results[0]).substring(0, 300));
-      }
-      return obj.results as PhraseResult[];
-    }
-    if ('data' in obj && Array.isArray(obj.data)) {
-      console.log('Found data array with', obj.data.length, 'items');
-      return obj.data as PhraseResult[];
-    }
-    if ('items' in obj && Array.isArray(obj.items)) {
-      console.log('Found items array with', obj.items.length, 'items');
-      return obj.items as PhraseResult[];
-    }
-  }
-  
-  console.log('No valid results found in response structure');
-  return [];
 }
 
-async function getVideoDetails(videoId: string, cookies?: string, csrfToken?: string): Promise<string> {
-  const videoUrl = new URL('https://www.playphrase.me/api/v1/phrases/video-view');
-  videoUrl.searchParams.set('video-id', videoId);
-  videoUrl.searchParams.set('platform', 'desktop safari');
-
-  const headers: Record<string, string> = {
-    'Accept': 'application/json',
-    'Accept-Language': 'en-US,en;q=0.9',
-    'User-Agent': USER_AGENT,
-    'Referer': 'https://www.playphrase.me/',
-    'Origin': 'https://www.playphrase.me',
-    'Content-Type': 'application/json',
-    'Authorization': 'Token',
-    'Sec-Fetch-Site': 'same-origin',
-    'Sec-Fetch-Mode': 'cors',
-    'Sec-Fetch-Dest': 'empty',
-  };
-
-  if (cookies) {
-    headers['Cookie'] = cookies;
-  }
-  if (csrfToken) {
-    headers['X-Csrf-Token'] = csrfToken;
-  }
-
-  const response = await fetch(videoUrl.toString(), {
-    method: 'GET',
-    headers,
-    cf: {
-      cacheTtl: 3600,
-      cacheEverything: false,
-    },
-  });
-
-  if (!response.ok) {
-    const errorText = await response.text().catch(() => response.statusText);
-    throw new Error(`Video API failed: ${response.status} ${response.statusText}. Response: ${errorText.substring(0, 200)}`);
-  }
-
-  const responseText = await response.text();
-  console.log('Video details API raw response:', responseText.substring(0, 500));
-  
-  let data: unknown;
+export const GET = withRequestLogging(async (request: NextRequest) => {
   try {
-    data = JSON.parse(responseText);
-  } catch {
-    console.error('Failed to parse video details JSON:', responseText.substring(0, 200));
-    return '';
-  }
+    // Fail fast with a clear message if the Worker is misconfigured
+    const config = getConfig();
+    await enforceRateLimit(request, config);
 
-  if (data && typeof data === 'object') {
-    const obj = data as Record<string, unknown>;
-    console.log('Video details object keys:', Object.keys(obj));
-    
-    // Try different possible field names for video URL
-    const videoUrl = obj.video_url || obj.videoUrl || obj.url || obj.video || obj.video_src || obj.src;
-    if (videoUrl && typeof videoUrl === 'string') {
-      return videoUrl;
-    }
-  }
-  
-  console.log('No video URL found in response');
-  return '';
-}
-
-export async function GET(request: NextRequest) {
-  try {
     const searchParams = request.nextUrl.searchParams;
-    const phrase = searchParams.get('phrase');
-    const language = searchParams.get('language') || 'en';
-
-    if (!phrase) {
-      return NextResponse.json(
-        { error: 'Missing required parameter: phrase' },
-        { status: 400 }
-      );
-    }
-
-    // Get session cookies and CSRF token first
-    const { cookies, csrfToken } = await getSessionCookies();
-    
-    console.log('Using auth for search:', {
-      hasCookies: !!cookies,
-      hasCsrfToken: !!csrfToken,
-      cookiesPreview: cookies ? `${cookies.substring(0, 50)}...` : 'none',
-      csrfTokenPreview: csrfToken ? `${csrfToken.substring(0, 30)}...` : 'none',
+    const query = parseVideosQuery(searchParams);
+    const { result, cacheStatus } = await loadVideos(query, config, {
+      fresh: searchParams.get('fresh') === '1',
+      chargeFallback: () => enforceRateLimit(request, config),
     });
 
-    // Search for phrases
-    const results: PhraseResult[] = await searchPhrases(phrase, language, 5, cookies, csrfToken);
-
-    if (results.length === 0) {
-      console.log(`No results found for phrase "${phrase}" in language "${language}"`);
-      return NextResponse.json({ 
-        videos: [],
-        message: language === 'en' 
-          ? 'No English videos found. The API may have limited English content or require a subscription for English.'
-          : `No videos found for phrase "${phrase}" in language "${language}"`
-      });
-    }
-
-    console.log('Processing', results.length, 'search results');
-    
-    // Extract video URLs and subtitle data from the phrases
-    // Process up to 5 results (or fewer if less are available)
-    const videoData = results
-      .slice(0, Math.min(5, results.length))
-      .map((result, index) => {
-        console.log(`Result ${index}:`, JSON.stringify(result).substring(0, 200));
-        
-        // The API returns video URLs directly in 'video-url' field
-        const videoUrl = result['video-url'] || result.video_url || result.videoUrl;
-        
-        // Extract subtitle information
-        const subtitle = {
-          text: result.text || '',
-          start: result.start || 0,
-          end: result.end || 0,
-          words: result.words || [],
-        };
-        
-        if (videoUrl && typeof videoUrl === 'string') {
-          console.log(`Found video URL in result ${index}:`, videoUrl.substring(0, 100));
-          return {
-            url: videoUrl,
-            subtitle,
-          };
-        }
-        
-        // Fallback: if no direct video URL, try to fetch it using the phrase ID
-        const phraseId = result.id;
-        if (phraseId && typeof phraseId === 'string') {
-          console.log(`No direct video URL, fetching for phrase ID: ${phraseId}`);
-          return getVideoDetails(phraseId, cookies, csrfToken)
-            .then((url) => ({
-              url,
-              subtitle,
-            }))
-            .catch((error) => {
-              console.error(`Failed to fetch video for ${phraseId}:`, error);
-              return null;
-            });
-        }
-        
-        console.error('No video URL or ID found in result:', JSON.stringify(result));
-        return null;
-      });
-    
-    // Wait for any promises to resolve (in case we need to fetch some URLs)
-    const resolvedData = await Promise.all(videoData);
-    const validVideos = resolvedData.filter((item): item is { url: string; subtitle: { text: string; start: number; end: number; words: Word[] } } => 
-      item !== null && item.url !== null && item.url !== ''
-    );
-
-    return NextResponse.json({ 
-      videos: validVideos.map(item => item.url),
-      subtitles: validVideos.map(item => item.subtitle),
-    });
+    const cacheControl = config.videosCacheTtl > 0 ? `public, max-age=${config.videosCacheTtl}` : 'no-store';
+    return jsonWithEtag(request, result, cacheControl, cacheStatus);
   } catch (error) {
-    console.error('Error fetching videos:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch videos', message: error instanceof Error ? error.message : 'Unknown error' },
-      { status: 500 }
-    );
+    return handleRouteError(error, 'Error fetching videos');
   }
-}
-
+});
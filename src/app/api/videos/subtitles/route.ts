@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ApiError, handleRouteError } from '@/lib/api-error';
+import { CAPTION_CONTENT_TYPES, CAPTION_FORMATS, formatCaptions, toCaptionJson, type CaptionFormat } from '@/lib/captions';
+import { getConfig } from '@/lib/config';
+import { withRequestLogging } from '@/lib/logger';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { loadVideos, parseIntParam, parseVideosQuery, type VideosBody } from '@/lib/video-search';
+
+// Caption files for the clips of one /api/videos page. Takes the same
+// phrase/language/limit/cursor/provider parameters, plus:
+//   format  srt | vtt | json (default vtt)
+//   clip    0-based position of the clip in that page; required for srt/vtt,
+//           json returns every clip of the page when it's omitted
+//   words=1 word-level timestamp tags in VTT cues
+//   download=1 serve as an attachment instead of inline
+
+function isCaptionFormat(value: string): value is CaptionFormat {
+  return (CAPTION_FORMATS as string[]).includes(value);
+}
+
+export const GET = withRequestLogging(async (request: NextRequest) => {
+  try {
+    const config = getConfig();
+    await enforceRateLimit(request, config);
+
+    const searchParams = request.nextUrl.searchParams;
+    const query = parseVideosQuery(searchParams);
+
+    const format = searchParams.get('format') || 'vtt';
+    if (!isCaptionFormat(format)) {
+      throw new ApiError('INVALID_PARAMS', `Invalid parameter: format must be one of ${CAPTION_FORMATS.join(', ')}`);
+    }
+
+    const clip = parseIntParam(searchParams.get('clip'), -1);
+    if (clip === null) {
+      throw new ApiError('INVALID_PARAMS', 'Invalid parameter: clip must be a non-negative integer');
+    }
+    if (clip < 0 && format !== 'json') {
+      throw new ApiError('INVALID_PARAMS', `Missing required parameter: clip (needed for format=${format})`);
+    }
+
+    const { result, cacheStatus } = await loadVideos(query, config, {
+      fresh: searchParams.get('fresh') === '1',
+      chargeFallback: () => enforceRateLimit(request, config),
+    });
+    const { subtitles, nextCursor } = JSON.parse(result.body) as VideosBody;
+
+    if (clip >= subtitles.length) {
+      throw new ApiError('NO_RESULTS', `This page only has ${subtitles.length} clip(s)`);
+    }
+
+    const headers: Record<string, string> = {
+      'Cache-Control': config.videosCacheTtl > 0 ? `public, max-age=${config.videosCacheTtl}` : 'no-store',
+      'X-Cache': cacheStatus,
+    };
+
+    if (clip < 0) {
+      return NextResponse.json({
+        clips: subtitles.map((subtitle, index) => ({ clip: index, ...toCaptionJson(subtitle) })),
+        nextCursor,
+      }, { headers });
+    }
+
+    const filename = `clip-${query.skip + clip + 1}.${format}`;
+    const disposition = searchParams.get('download') === '1' ? 'attachment' : 'inline';
+    return new NextResponse(formatCaptions(subtitles[clip], format, { wordCues: searchParams.get('words') === '1' }), {
+      headers: {
+        ...headers,
+        'Content-Type': CAPTION_CONTENT_TYPES[format],
+        'Content-Disposition': `${disposition}; filename="${filename}"`,
+      },
+    });
+  } catch (error) {
+    return handleRouteError(error, 'Error exporting subtitles');
+  }
+});
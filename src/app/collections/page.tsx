@@ -0,0 +1,214 @@
+'use client';
+
+import { useCallback, useMemo, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import ErrorScreen from '@/components/ErrorScreen';
+import SavedClipList from '@/components/SavedClipList';
+import VideoPlayer from '@/components/VideoPlayer';
+import type { ClipSearch } from '@/hooks/useClipSearch';
+import { useCollections } from '@/hooks/useCollections';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import { FAVORITES_ID, type SavedClip } from '@/lib/saved-clips';
+
+// `/collections` lists saved clips; `?collection=<id>&play=N` plays one
+// collection from clip N.
+function collectionsUrl(collection?: string, play?: number): string {
+  if (collection === undefined) return '/collections';
+  const params = new URLSearchParams({ collection, play: String(play ?? 0) });
+  return `/collections?${params}`;
+}
+
+function noop() {}
+
+function CollectionsPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const playing = searchParams.get('collection');
+  const playParam = searchParams.get('play');
+  const playIndex = Math.max(0, Number.parseInt(playParam ?? '', 10) || 0);
+  const collections = useCollections();
+  const [newName, setNewName] = useState('');
+  const [replaceOnImport, setReplaceOnImport] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+
+  const { saveClip, removeClip, toggleFavorite } = collections;
+  // Shows what an action resolves to, or why it failed
+  const run = useCallback((action: Promise<string | void>) => {
+    action.then(
+      (message) => setStatus(message || null),
+      (err) => setStatus(err instanceof Error ? err.message : 'Something went wrong')
+    );
+  }, []);
+
+  const playingCollection = collections.collections.find((collection) => collection.id === playing);
+  const search = useMemo((): ClipSearch => ({
+    videos: playingCollection?.clips.map((clip) => clip.video) ?? [],
+    subtitles: playingCollection?.clips.map((clip) => clip.subtitle) ?? [],
+    loading: collections.loading,
+    error: collections.error,
+    nextCursor: null,
+    loadingMore: false,
+    loadMore: noop,
+    retry: collections.retry,
+  }), [playingCollection, collections.loading, collections.error, collections.retry]);
+
+  const handleIndexChange = useCallback((index: number) => {
+    if (playing && index !== playIndex) {
+      router.replace(collectionsUrl(playing, index), { scroll: false });
+    }
+  }, [router, playing, playIndex]);
+
+  const handleToggleSave = useCallback((index: number) => {
+    const clip = playingCollection?.clips[index];
+    if (clip) {
+      run(toggleFavorite(clip));
+    }
+  }, [playingCollection, toggleFavorite, run]);
+
+  const handleMove = (clip: SavedClip, from: string, to: string) => {
+    run(saveClip(to, clip).then(() => removeClip(from, clip.id)));
+  };
+
+  if (playingCollection && playingCollection.clips.length > 0) {
+    return (
+      <VideoPlayer
+        key={playingCollection.id}
+        search={search}
+        language={playingCollection.clips[0]?.language ?? DEFAULT_LANGUAGE}
+        favorites={collections.favorites}
+        onToggleSave={handleToggleSave}
+        startIndex={Math.min(playIndex, playingCollection.clips.length - 1)}
+        // Saved clips keep their whole length
+        tight={false}
+        padding={0}
+        onIndexChange={handleIndexChange}
+        onTightChange={() => {}}
+        onClose={() => router.replace(collectionsUrl(), { scroll: false })}
+      />
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col items-center px-4 py-6 gap-6">
+      <div className="w-full max-w-6xl flex items-center gap-4">
+        <Link href="/" className="text-lg font-bold whitespace-nowrap hover:text-yellow-400">
+          Phrase to Clip
+        </Link>
+      </div>
+      {collections.loading ? (
+        <div className="py-12 text-gray-400">Loading saved clips...</div>
+      ) : collections.error ? (
+        <ErrorScreen error={collections.error} onRetry={collections.retry} />
+      ) : (
+        <>
+          <div className="w-full max-w-6xl flex flex-wrap items-center justify-between gap-4">
+            <h1 className="text-xl font-bold">Saved clips</h1>
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              {/* `download` makes Link leave the click to the browser */}
+              <Link href="/api/collections/export" download prefetch={false} className="px-4 py-2 rounded bg-white/10 hover:bg-white/20">
+                Export JSON
+              </Link>
+              <label className="px-4 py-2 rounded bg-white/10 hover:bg-white/20 cursor-pointer">
+                Import JSON
+                <input
+                  type="file"
+                  accept="application/json,.json"
+                  className="sr-only"
+                  onChange={(event) => {
+                    const file = event.target.files?.[0];
+                    event.target.value = '';
+                    if (file) {
+                      run(collections.importFile(file, replaceOnImport).then((added) => (
+                        `Imported ${added} clip${added === 1 ? '' : 's'}`
+                      )));
+                    }
+                  }}
+                />
+              </label>
+              <label className="flex items-center gap-1 text-gray-400">
+                <input type="checkbox" checked={replaceOnImport} onChange={(event) => setReplaceOnImport(event.target.checked)} />
+                Replace everything
+              </label>
+            </div>
+          </div>
+          {status && <div className="w-full max-w-6xl text-sm text-gray-400">{status}</div>}
+          <form
+            onSubmit={(event) => {
+              event.preventDefault();
+              if (!newName.trim()) return;
+              run(collections.createCollection(newName.trim()).then(() => setNewName('')));
+            }}
+            className="w-full max-w-6xl flex gap-2"
+          >
+            <input
+              type="text"
+              value={newName}
+              onChange={(event) => setNewName(event.target.value)}
+              placeholder="New collection"
+              maxLength={100}
+              className="flex-1 max-w-xs rounded bg-white/10 px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-yellow-400"
+            />
+            <button type="submit" disabled={!newName.trim()} className="px-4 py-2 rounded bg-white/10 text-sm hover:bg-white/20 disabled:opacity-50">
+              Create
+            </button>
+          </form>
+          {collections.collections.map((collection) => (
+            <section key={collection.id} className="w-full max-w-6xl flex flex-col gap-3">
+              <div className="flex items-center justify-between">
+                <h2 className="font-bold">
+                  {collection.name}
+                  <span className="ml-2 text-sm font-normal text-gray-500">
+                    {collection.clips.length} clip{collection.clips.length === 1 ? '' : 's'}
+                  </span>
+                </h2>
+                <div className="flex gap-2 text-sm">
+                  {collection.id !== FAVORITES_ID && (
+                    <button
+                      type="button"
+                      onClick={() => {
+                        if (window.confirm(`Delete “${collection.name}” and its clips?`)) {
+                          run(collections.deleteCollection(collection.id));
+                        }
+                      }}
+                      className="px-3 py-1 rounded bg-white/10 hover:bg-white/20"
+                    >
+                      Delete
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => router.push(collectionsUrl(collection.id, 0))}
+                    disabled={collection.clips.length === 0}
+                    className="px-3 py-1 rounded bg-yellow-400 text-black font-medium hover:bg-yellow-300 disabled:opacity-50"
+                  >
+                    ▶ Play
+                  </button>
+                </div>
+              </div>
+              <SavedClipList
+                collection={collection}
+                collections={collections.collections}
+                onPlay={(index) => router.push(collectionsUrl(collection.id, index))}
+                onRemove={(clip) => run(removeClip(collection.id, clip.id))}
+                onMove={(clip, targetId) => handleMove(clip, collection.id, targetId)}
+              />
+            </section>
+          ))}
+        </>
+      )}
+    </main>
+  );
+}
+
+export default function Collections() {
+  return (
+    <Suspense fallback={
+      <div className="fixed inset-0 flex items-center justify-center bg-black text-white">
+        <div>Loading...</div>
+      </div>
+    }>
+      <CollectionsPage />
+    </Suspense>
+  );
+}
@@ -0,0 +1,76 @@
+'use client';
+
+import { Suspense, useCallback, useState } from 'react';
+import { useSearchParams } from 'next/navigation';
+import ErrorScreen from '@/components/ErrorScreen';
+import VideoPlayer from '@/components/VideoPlayer';
+import { useClipSearch } from '@/hooks/useClipSearch';
+import { DEFAULT_LANGUAGE } from '@/lib/languages';
+import { EMBED_THEMES, parsePadding, type EmbedTheme } from '@/lib/sharing';
+
+// The player on its own, for iframes: `?phrase=...&language=...` with
+// optional `tight=1[&padding=ms]`, `autoplay=1`, `muted=1` and `theme=light`.
+// Nothing here changes the URL, since the page embedding it owns navigation.
+function EmbedView() {
+  const searchParams = useSearchParams();
+  const phrase = searchParams.get('phrase')?.trim() || null;
+  const language = searchParams.get('language') || DEFAULT_LANGUAGE;
+  const autoPlay = searchParams.get('autoplay') === '1';
+  // Browsers block autoplay with sound, so autoplay starts muted
+  const muted = autoPlay || searchParams.get('muted') === '1';
+  const themeParam = searchParams.get('theme') as EmbedTheme | null;
+  const theme = themeParam && EMBED_THEMES.includes(themeParam) ? themeParam : 'dark';
+  const [tight, setTight] = useState(searchParams.get('tight') === '1');
+  const [padding, setPadding] = useState(parsePadding(searchParams.get('padding')));
+
+  const search = useClipSearch(phrase, language);
+
+  const handleTightChange = useCallback((nextTight: boolean, nextPadding: number) => {
+    setTight(nextTight);
+    setPadding(nextPadding);
+  }, []);
+  const handleIndexChange = useCallback(() => {}, []);
+
+  const colors = theme === 'light' ? 'bg-white text-black' : 'bg-black text-white';
+  const homeHref = phrase ? `/?${new URLSearchParams({ phrase, language })}` : '/';
+
+  if (phrase && !search.loading && !search.error && search.videos.length > 0) {
+    return (
+      <VideoPlayer
+        search={search}
+        language={language}
+        startIndex={0}
+        tight={tight}
+        padding={padding}
+        onIndexChange={handleIndexChange}
+        onTightChange={handleTightChange}
+        autoPlay={autoPlay}
+        muted={muted}
+        theme={theme}
+        homeHref={homeHref}
+      />
+    );
+  }
+
+  return (
+    <main className={`fixed inset-0 flex items-center justify-center text-sm ${colors}`}>
+      {!phrase ? (
+        <div className="text-gray-400">No phrase to play</div>
+      ) : search.error ? (
+        <ErrorScreen error={search.error} onRetry={search.retry} />
+      ) : search.loading ? (
+        <div className="text-gray-400">Loading videos...</div>
+      ) : (
+        <div className="text-gray-400">No clips found for this phrase</div>
+      )}
+    </main>
+  );
+}
+
+export default function EmbedPage() {
+  return (
+    <Suspense fallback={null}>
+      <EmbedView />
+    </Suspense>
+  );
+}
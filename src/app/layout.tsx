@@ -13,8 +13,18 @@ const geistMono = Geist_Mono({
 });
 
 export const metadata: Metadata = {
-  title: "Create Next App",
-  description: "Generated by create next app",
+  title: {
+    default: "Phrase to Clip",
+    template: "%s · Phrase to Clip",
+  },
+  description: "Hear any phrase spoken in movies and TV shows.",
+  openGraph: {
+    siteName: "Phrase to Clip",
+    type: "website",
+  },
+  twitter: {
+    card: "summary",
+  },
 };
 
 export default function RootLayout({
@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
+import ErrorScreen from '@/components/ErrorScreen';
+import ResultsGrid from '@/components/ResultsGrid';
+import VideoPlayer from '@/components/VideoPlayer';
+import { useCollections } from '@/hooks/useCollections';
+import { usePlaylist } from '@/hooks/usePlaylist';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/languages';
+
+// `/playlists/:id` lists a saved playlist's sections; `?play=N` plays it from
+// clip N through to the end, like `play` on the search page.
+function playlistUrl(id: string, play?: number): string {
+  return play === undefined ? `/playlists/${id}` : `/playlists/${id}?play=${play}`;
+}
+
+function PlaylistPage() {
+  const router = useRouter();
+  const { id } = useParams<{ id: string }>();
+  const searchParams = useSearchParams();
+  const playParam = searchParams.get('play');
+  const playIndex = playParam !== null ? Math.max(0, Number.parseInt(playParam, 10) || 0) : null;
+  const { playlist, search, sections } = usePlaylist(id);
+  const collections = useCollections();
+  const [copied, setCopied] = useState(false);
+
+  const handleIndexChange = useCallback((index: number) => {
+    if (index !== playIndex) {
+      router.replace(playlistUrl(id, index), { scroll: false });
+    }
+  }, [router, id, playIndex]);
+
+  const handleClose = useCallback(() => {
+    router.replace(playlistUrl(id), { scroll: false });
+  }, [router, id]);
+
+  const { toggleFavorite } = collections;
+  const handleToggleSave = useCallback((index: number) => {
+    const section = sections.findLast((entry) => entry.startIndex <= index);
+    const video = search.videos[index];
+    const subtitle = search.subtitles[index];
+    if (!section || !video || !subtitle) return;
+    toggleFavorite({ phrase: section.title, language: section.language, video, subtitle }).catch((err) => {
+      console.error('Error saving clip:', err);
+    });
+  }, [toggleFavorite, sections, search.videos, search.subtitles]);
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(`${window.location.origin}${playlistUrl(id)}`).then(
+      () => setCopied(true),
+      (err) => console.error('Error copying link:', err)
+    );
+  };
+
+  if (playIndex !== null && !search.loading && !search.error && search.videos.length > 0) {
+    return (
+      <VideoPlayer
+        search={search}
+        language={sections[0]?.language ?? DEFAULT_LANGUAGE}
+        sections={sections}
+        favorites={collections.favorites}
+        onToggleSave={collections.loading || collections.error ? undefined : handleToggleSave}
+        startIndex={Math.min(playIndex, search.videos.length - 1)}
+        // Clips are stored whole, so tight mode isn't offered here
+        tight={false}
+        padding={0}
+        onIndexChange={handleIndexChange}
+        onTightChange={() => {}}
+        onClose={handleClose}
+      />
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col items-center px-4 py-6 gap-6">
+      <div className="w-full max-w-6xl flex items-center gap-4">
+        <Link href="/" className="text-lg font-bold whitespace-nowrap hover:text-yellow-400">
+          Phrase to Clip
+        </Link>
+      </div>
+      {search.loading ? (
+        <div className="py-12 text-gray-400">Loading playlist...</div>
+      ) : search.error ? (
+        <ErrorScreen error={search.error} onRetry={search.retry} />
+      ) : (
+        <>
+          <div className="w-full max-w-6xl flex items-center justify-between">
+            <div>
+              <h1 className="text-xl font-bold">{playlist?.title || 'Playlist'}</h1>
+              <div className="text-sm text-gray-400">
+                {sections.length} phrase{sections.length === 1 ? '' : 's'}, {search.videos.length} clip{search.videos.length === 1 ? '' : 's'}
+              </div>
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={copyLink}
+                className="px-4 py-2 rounded bg-white/10 text-sm hover:bg-white/20"
+              >
+                {copied ? 'Link copied' : 'Copy link'}
+              </button>
+              <button
+                type="button"
+                onClick={() => router.push(playlistUrl(id, 0))}
+                disabled={search.videos.length === 0}
+                className="px-4 py-2 rounded bg-yellow-400 text-black text-sm font-medium hover:bg-yellow-300 disabled:opacity-50"
+              >
+                ▶ Play all
+              </button>
+            </div>
+          </div>
+          <ol className="w-full max-w-6xl flex flex-col gap-1 text-sm">
+            {playlist?.sections.map((section, index) => {
+              const start = playlist.sections.slice(0, index).reduce((total, previous) => total + previous.videos.length, 0);
+              return (
+                <li key={index} className="flex items-center gap-2">
+                  <span className="w-6 text-right text-gray-500">{index + 1}.</span>
+                  {section.videos.length > 0 ? (
+                    <button
+                      type="button"
+                      onClick={() => router.push(playlistUrl(id, start))}
+                      className="hover:text-yellow-400"
+                    >
+                      “{section.phrase}”
+                    </button>
+                  ) : (
+                    <span className="text-gray-500">“{section.phrase}”</span>
+                  )}
+                  {section.language !== DEFAULT_LANGUAGE && (
+                    <span className="text-gray-500">({getLanguageName(section.language)})</span>
+                  )}
+                  <span className="text-gray-500">
+                    {section.error ?? `${section.videos.length} clip${section.videos.length === 1 ? '' : 's'}`}
+                  </span>
+                </li>
+              );
+            })}
+          </ol>
+          <ResultsGrid search={search} onSelect={(index) => router.push(playlistUrl(id, index))} />
+        </>
+      )}
+    </main>
+  );
+}
+
+export default function Playlist() {
+  return (
+    <Suspense fallback={
+      <div className="fixed inset-0 flex items-center justify-center bg-black text-white">
+        <div>Loading...</div>
+      </div>
+    }>
+      <PlaylistPage />
+    </Suspense>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import type { ApiErrorBody } from '@/lib/api-error';
+import { DEFAULT_LANGUAGE, LANGUAGES } from '@/lib/languages';
+import type { Playlist } from '@/lib/playlists';
+
+interface ItemDraft {
+  // Stable React key; rows can be removed from the middle
+  key: number;
+  phrase: string;
+  language: string;
+  count: number;
+}
+
+const MAX_ITEMS = 20;
+const CLIP_COUNTS = [1, 3, 5, 10, 20];
+const DEFAULT_COUNT = 5;
+
+let nextKey = 0;
+
+function emptyItem(language: string = DEFAULT_LANGUAGE): ItemDraft {
+  return { key: nextKey++, phrase: '', language, count: DEFAULT_COUNT };
+}
+
+export default function NewPlaylist() {
+  const router = useRouter();
+  const [title, setTitle] = useState('');
+  const [items, setItems] = useState<ItemDraft[]>(() => [emptyItem(), emptyItem()]);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateItem = (key: number, changes: Partial<ItemDraft>) => {
+    setItems((prev) => prev.map((item) => (item.key === key ? { ...item, ...changes } : item)));
+  };
+
+  const moveItem = (index: number, offset: number) => {
+    setItems((prev) => {
+      const next = [...prev];
+      [next[index], next[index + offset]] = [next[index + offset], next[index]];
+      return next;
+    });
+  };
+
+  const filled = items.filter((item) => item.phrase.trim());
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (filled.length === 0 || saving) return;
+
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/playlists', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          title: title.trim() || undefined,
+          items: filled.map(({ phrase, language, count }) => ({ phrase: phrase.trim(), language, count })),
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => null) as Partial<ApiErrorBody> | null;
+        setError(errorData?.error || 'Failed to create playlist');
+        return;
+      }
+
+      const playlist = await response.json() as Playlist;
+      router.push(`/playlists/${playlist.id}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col items-center px-4 py-6 gap-6">
+      <div className="w-full max-w-2xl flex items-center gap-4">
+        <Link href="/" className="text-lg font-bold whitespace-nowrap hover:text-yellow-400">
+          Phrase to Clip
+        </Link>
+      </div>
+      <form onSubmit={handleSubmit} className="w-full max-w-2xl flex flex-col gap-4">
+        <h1 className="text-2xl font-bold">New playlist</h1>
+        <p className="text-sm text-gray-400">
+          Clips for each phrase play in order. Finding them all can take a little while.
+        </p>
+        <input
+          type="text"
+          value={title}
+          onChange={(event) => setTitle(event.target.value)}
+          placeholder="Title (optional)"
+          maxLength={200}
+          className="rounded bg-white/10 px-3 py-2 outline-none focus:ring-2 focus:ring-yellow-400"
+        />
+        <ol className="flex flex-col gap-2">
+          {items.map((item, index) => (
+            <li key={item.key} className="flex items-center gap-2">
+              <span className="w-6 text-right text-sm text-gray-500">{index + 1}.</span>
+              <input
+                type="text"
+                value={item.phrase}
+                onChange={(event) => updateItem(item.key, { phrase: event.target.value })}
+                placeholder="Phrase"
+                aria-label={`Phrase ${index + 1}`}
+                maxLength={200}
+                className="flex-1 rounded bg-white/10 px-3 py-2 outline-none focus:ring-2 focus:ring-yellow-400"
+              />
+              <select
+                value={item.language}
+                onChange={(event) => updateItem(item.key, { language: event.target.value })}
+                aria-label={`Language for phrase ${index + 1}`}
+                className="rounded bg-white/10 px-2 py-2"
+              >
+                {LANGUAGES.map((language) => (
+                  <option key={language.code} value={language.code} className="bg-neutral-900">
+                    {language.name}
+                  </option>
+                ))}
+              </select>
+              <select
+                value={item.count}
+                onChange={(event) => updateItem(item.key, { count: Number(event.target.value) })}
+                aria-label={`Clips for phrase ${index + 1}`}
+                className="rounded bg-white/10 px-2 py-2"
+              >
+                {CLIP_COUNTS.map((count) => (
+                  <option key={count} value={count} className="bg-neutral-900">
+                    {count} clip{count === 1 ? '' : 's'}
+                  </option>
+                ))}
+              </select>
+              <button
+                type="button"
+                onClick={() => moveItem(index, -1)}
+                disabled={index === 0}
+                aria-label={`Move phrase ${index + 1} up`}
+                className="px-2 py-2 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                onClick={() => moveItem(index, 1)}
+                disabled={index === items.length - 1}
+                aria-label={`Move phrase ${index + 1} down`}
+                className="px-2 py-2 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                onClick={() => setItems((prev) => prev.filter((entry) => entry.key !== item.key))}
+                disabled={items.length === 1}
+                aria-label={`Remove phrase ${index + 1}`}
+                className="px-2 py-2 text-gray-400 hover:text-white disabled:opacity-30"
+              >
+                ×
+              </button>
+            </li>
+          ))}
+        </ol>
+        <div className="flex items-center justify-between">
+          <button
+            type="button"
+            onClick={() => setItems((prev) => [...prev, emptyItem(prev[prev.length - 1]?.language)])}
+            disabled={items.length >= MAX_ITEMS}
+            className="px-4 py-2 rounded bg-white/10 text-sm hover:bg-white/20 disabled:opacity-50"
+          >
+            + Add phrase
+          </button>
+          <button
+            type="submit"
+            disabled={filled.length === 0 || saving}
+            className="px-4 py-2 rounded bg-yellow-400 text-black text-sm font-medium hover:bg-yellow-300 disabled:opacity-50"
+          >
+            {saving ? 'Finding clips...' : 'Create playlist'}
+          </button>
+        </div>
+        {error && <div className="text-sm text-red-400">{error}</div>}
+      </form>
+    </main>
+  );
+}
@@ -0,0 +1,168 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import VideoPlayer, { type PlayerSection } from '@/components/VideoPlayer';
+import type { ClipSearch } from '@/hooks/useClipSearch';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/languages';
+import { getDueItems, loadReviewQueue, removeReviewItem, REVIEW_BOX_COUNT, type ReviewItem } from '@/lib/review-queue';
+
+// `/review` lists the lines missed in study mode; `?play=N` works through
+// the ones that are due, from line N, with dictation on.
+function reviewUrl(play?: number): string {
+  return play === undefined ? '/review' : `/review?play=${play}`;
+}
+
+function noop() {}
+
+function formatDue(dueAt: number, now: number): string {
+  const minutes = Math.round((dueAt - now) / 60000);
+  if (minutes <= 0) return 'due now';
+  if (minutes < 60) return `in ${minutes} min`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 24) return `in ${hours} h`;
+  return `in ${Math.round(hours / 24)} d`;
+}
+
+function ReviewPage() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const playParam = searchParams.get('play');
+  const playIndex = playParam !== null ? Math.max(0, Number.parseInt(playParam, 10) || 0) : null;
+  const reviewing = playIndex !== null;
+  const [queue, setQueue] = useState<ReviewItem[] | null>(null);
+  // The lines of this review round, fixed when it starts so that answering
+  // one doesn't reshuffle the rest
+  const [round, setRound] = useState<ReviewItem[]>([]);
+  const [now, setNow] = useState(0);
+
+  // localStorage is only available after hydration; re-read after each round
+  const loaded = queue !== null;
+  useEffect(() => {
+    if (reviewing && loaded) return;
+    const items = loadReviewQueue();
+    const current = Date.now();
+    setQueue(items);
+    setNow(current);
+    // One language after another, so the player's header marks the switches
+    setRound(getDueItems(items, current).sort((a, b) => a.language.localeCompare(b.language)));
+  }, [reviewing, loaded]);
+
+  const search = useMemo((): ClipSearch => ({
+    // Stored URLs expire; the proxy looks the clip up again
+    videos: round.map((item) => item.subtitle.proxy ?? item.video),
+    subtitles: round.map((item) => item.subtitle),
+    loading: queue === null,
+    error: null,
+    nextCursor: null,
+    loadingMore: false,
+    loadMore: noop,
+    retry: noop,
+  }), [round, queue]);
+
+  const sections = useMemo((): PlayerSection[] => {
+    const languages = new Set(round.map((item) => item.language));
+    if (languages.size < 2) return [];
+    return round
+      .map((item, index) => ({ title: getLanguageName(item.language), language: item.language, startIndex: index }))
+      .filter((section, index) => index === 0 || round[index - 1].language !== section.language);
+  }, [round]);
+
+  const handleIndexChange = useCallback((index: number) => {
+    if (index !== playIndex) {
+      router.replace(reviewUrl(index), { scroll: false });
+    }
+  }, [router, playIndex]);
+
+  if (reviewing && round.length > 0) {
+    return (
+      <VideoPlayer
+        search={search}
+        language={round[0]?.language ?? DEFAULT_LANGUAGE}
+        sections={sections}
+        study
+        startIndex={Math.min(playIndex, round.length - 1)}
+        // Lines are reviewed whole
+        tight={false}
+        padding={0}
+        onIndexChange={handleIndexChange}
+        onTightChange={() => {}}
+        onClose={() => router.replace(reviewUrl(), { scroll: false })}
+      />
+    );
+  }
+
+  const upcoming = (queue ?? []).filter((item) => item.dueAt > now).sort((a, b) => a.dueAt - b.dueAt);
+
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col items-center px-4 py-6 gap-6">
+      <div className="w-full max-w-3xl flex items-center gap-4">
+        <Link href="/" className="text-lg font-bold whitespace-nowrap hover:text-yellow-400">
+          Phrase to Clip
+        </Link>
+      </div>
+      {queue === null ? (
+        <div className="py-12 text-gray-400">Loading review queue...</div>
+      ) : queue.length === 0 ? (
+        <div className="py-12 text-center text-gray-400 max-w-md">
+          Nothing to review yet. Turn on study mode in the player (✎ or D), type what you hear, and the lines you miss will show up here.
+        </div>
+      ) : (
+        <>
+          <div className="w-full max-w-3xl flex items-center justify-between gap-4">
+            <div>
+              <h1 className="text-xl font-bold">Review</h1>
+              <p className="text-sm text-gray-400">
+                {round.length} due now, {upcoming.length} later. A line leaves the queue after {REVIEW_BOX_COUNT} correct reviews in a row.
+              </p>
+            </div>
+            <button
+              type="button"
+              onClick={() => router.push(reviewUrl(0))}
+              disabled={round.length === 0}
+              className="px-4 py-2 rounded bg-yellow-400 text-black text-sm font-medium hover:bg-yellow-300 disabled:opacity-50"
+            >
+              ▶ Start review
+            </button>
+          </div>
+          <ul className="w-full max-w-3xl flex flex-col divide-y divide-white/10">
+            {[...round, ...upcoming].map((item) => (
+              <li key={item.id} className="flex items-center gap-3 py-2 text-sm">
+                <span className="flex-1 truncate" lang={item.language}>{item.subtitle.text}</span>
+                <span className="text-gray-500 whitespace-nowrap">
+                  {item.language !== DEFAULT_LANGUAGE && `${getLanguageName(item.language)} · `}
+                  box {item.box + 1}/{REVIEW_BOX_COUNT} · {formatDue(item.dueAt, now)}
+                </span>
+                <button
+                  type="button"
+                  onClick={() => {
+                    const items = removeReviewItem(item.id);
+                    setQueue(items);
+                    setRound((prev) => prev.filter((entry) => entry.id !== item.id));
+                  }}
+                  aria-label={`Remove “${item.subtitle.text}” from the review queue`}
+                  className="px-2 py-1 rounded bg-white/10 hover:bg-white/20"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+    </main>
+  );
+}
+
+export default function Review() {
+  return (
+    <Suspense fallback={
+      <div className="fixed inset-0 flex items-center justify-center bg-black text-white">
+        <div>Loading...</div>
+      </div>
+    }>
+      <ReviewPage />
+    </Suspense>
+  );
+}
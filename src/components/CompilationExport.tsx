@@ -0,0 +1,157 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import type { ClipSearch } from '@/hooks/useClipSearch';
+import { exportCompilation, getSupportedMimeType, type CompilationResult } from '@/lib/compilation';
+
+interface CompilationExportProps {
+  phrase: string;
+  search: ClipSearch;
+  onClose: () => void;
+}
+
+type ExportState =
+  | { status: 'idle' }
+  | { status: 'running'; progress: number; clipIndex: number }
+  | { status: 'done'; result: CompilationResult; url: string }
+  | { status: 'error'; message: string };
+
+function slugify(text: string): string {
+  return text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '') || 'phrase';
+}
+
+export default function CompilationExport({ phrase, search, onClose }: CompilationExportProps) {
+  const { videos, subtitles } = search;
+  const [titleCard, setTitleCard] = useState(true);
+  const [burnSubtitles, setBurnSubtitles] = useState(true);
+  const [state, setState] = useState<ExportState>({ status: 'idle' });
+  const abortRef = useRef<AbortController | null>(null);
+  const [supported] = useState(() => getSupportedMimeType() !== null);
+
+  // Free the recording when it is replaced or the panel closes
+  const downloadUrl = state.status === 'done' ? state.url : null;
+  useEffect(() => {
+    return () => {
+      if (downloadUrl) {
+        URL.revokeObjectURL(downloadUrl);
+      }
+    };
+  }, [downloadUrl]);
+
+  useEffect(() => {
+    return () => abortRef.current?.abort();
+  }, []);
+
+  const start = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setState({ status: 'running', progress: 0, clipIndex: 0 });
+
+    try {
+      const result = await exportCompilation({
+        phrase,
+        videos,
+        subtitles,
+        titleCard,
+        burnSubtitles,
+        signal: controller.signal,
+        onProgress: (progress, clipIndex) => setState({ status: 'running', progress, clipIndex }),
+      });
+      setState({ status: 'done', result, url: URL.createObjectURL(result.blob) });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        setState({ status: 'idle' });
+        return;
+      }
+      console.error('Error exporting compilation:', err);
+      setState({ status: 'error', message: err instanceof Error ? err.message : 'Export failed' });
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const running = state.status === 'running';
+
+  return (
+    <div className="fixed inset-0 z-20 flex items-center justify-center bg-black/80 px-4" role="dialog" aria-modal="true" aria-labelledby="compilation-export-title">
+      <div className="w-full max-w-md rounded-lg bg-neutral-900 p-6 text-white">
+        <h2 id="compilation-export-title" className="text-lg font-bold mb-1">Export supercut</h2>
+        <p className="text-sm text-gray-400 mb-4">
+          Stitches the {videos.length} loaded clip{videos.length === 1 ? '' : 's'} for “{phrase}” into one video.
+          Recording happens in real time, so keep this tab open and visible.
+        </p>
+
+        {!supported ? (
+          <div className="text-sm text-red-400 mb-4">This browser can&apos;t record video. Try a recent Chrome, Edge or Safari.</div>
+        ) : (
+          <div className="flex flex-col gap-2 mb-4 text-sm">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={titleCard} disabled={running} onChange={(event) => setTitleCard(event.target.checked)} />
+              Start with a title card
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={burnSubtitles} disabled={running} onChange={(event) => setBurnSubtitles(event.target.checked)} />
+              Burn in subtitles
+            </label>
+          </div>
+        )}
+
+        {state.status === 'running' && (
+          <div className="mb-4">
+            <div className="h-2 rounded bg-white/10 overflow-hidden" role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(state.progress * 100)}>
+              <div className="h-full bg-yellow-400 transition-[width]" style={{ width: `${state.progress * 100}%` }} />
+            </div>
+            <div className="mt-1 text-xs text-gray-400">
+              Recording clip {Math.min(state.clipIndex + 1, videos.length)} of {videos.length} ({Math.round(state.progress * 100)}%)
+            </div>
+          </div>
+        )}
+
+        {state.status === 'error' && (
+          <div className="mb-4 text-sm text-red-400">{state.message}</div>
+        )}
+
+        {state.status === 'done' && (
+          <div className="mb-4 text-sm">
+            <a
+              href={state.url}
+              download={`${slugify(phrase)}-supercut.${state.result.extension}`}
+              className="inline-block px-4 py-2 rounded bg-yellow-400 text-black font-medium hover:bg-yellow-300"
+            >
+              Download {state.result.extension.toUpperCase()} ({(state.result.blob.size / 1_000_000).toFixed(1)} MB)
+            </a>
+            {state.result.skipped > 0 && (
+              <div className="mt-2 text-gray-400">
+                {state.result.skipped} clip{state.result.skipped === 1 ? '' : 's'} could not be loaded and {state.result.skipped === 1 ? 'was' : 'were'} left out.
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2">
+          {running ? (
+            <button type="button" onClick={() => abortRef.current?.abort()} className="px-4 py-2 rounded bg-white/10 hover:bg-white/20 text-sm">
+              Cancel
+            </button>
+          ) : (
+            <>
+              <button type="button" onClick={onClose} className="px-4 py-2 rounded bg-white/10 hover:bg-white/20 text-sm">
+                Close
+              </button>
+              {supported && (
+                <button
+                  type="button"
+                  onClick={start}
+                  disabled={videos.length === 0}
+                  className="px-4 py-2 rounded bg-yellow-400 text-black text-sm font-medium hover:bg-yellow-300 disabled:opacity-50"
+                >
+                  {state.status === 'idle' ? 'Start export' : 'Export again'}
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,49 @@
+'use client';
+
+import type { ApiErrorCode } from '@/lib/api-error';
+import type { SearchError } from '@/hooks/useClipSearch';
+
+// What to tell the user for each API error code, and whether retrying can help
+const ERROR_COPY: Record<ApiErrorCode, { title: string; retryable: boolean }> = {
+  INVALID_PARAMS: { title: 'That search is missing something', retryable: false },
+  INVALID_API_KEY: { title: 'This API key is not recognized', retryable: false },
+  NO_RESULTS: { title: 'No clips found for this phrase', retryable: false },
+  RATE_LIMITED: { title: 'Too many requests, give it a moment', retryable: true },
+  SERVER_MISCONFIGURED: { title: 'The server is not set up correctly', retryable: false },
+  INTERNAL_ERROR: { title: 'Something went wrong', retryable: true },
+  UPSTREAM_AUTH_FAILED: { title: 'The clip source refused our session', retryable: true },
+  UPSTREAM_BAD_RESPONSE: { title: 'The clip source sent something unexpected', retryable: true },
+  UPSTREAM_UNAVAILABLE: { title: 'The clip source is temporarily down', retryable: true },
+  UPSTREAM_TIMEOUT: { title: 'The clip source is taking too long', retryable: true },
+};
+
+interface ErrorScreenProps {
+  error: SearchError;
+  onRetry: () => void;
+}
+
+export default function ErrorScreen({ error, onRetry }: ErrorScreenProps) {
+  const copy = error.code ? ERROR_COPY[error.code] : { title: 'Could not load clips', retryable: true };
+
+  return (
+    <div className="text-center max-w-md mx-auto px-6 py-12">
+      <div className="text-red-500 text-lg mb-2">{copy.title}</div>
+      <div className="text-sm text-gray-400 mb-4">
+        {error.message}
+        {error.retryAfter !== undefined && ` Try again in ${error.retryAfter}s.`}
+      </div>
+      {copy.retryable && (
+        <button
+          type="button"
+          onClick={onRetry}
+          className="px-4 py-2 rounded bg-white/10 hover:bg-white/20 text-sm"
+        >
+          Try again
+        </button>
+      )}
+      {error.code === 'NO_RESULTS' && (
+        <div className="text-sm text-gray-400">Try a shorter or more common phrase.</div>
+      )}
+    </div>
+  );
+}
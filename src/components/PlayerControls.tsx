@@ -0,0 +1,150 @@
+'use client';
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5];
+// Milliseconds kept either side of the phrase in tight mode
+export const TIGHT_PADDINGS = [0, 250, 500, 1000];
+
+interface PlayerControlsProps {
+  playing: boolean;
+  loop: boolean;
+  tight: boolean;
+  padding: number;
+  rate: number;
+  volume: number;
+  muted: boolean;
+  fullscreen: boolean;
+  nativeCaptions: boolean;
+  study: boolean;
+  // Whether the current clip is in favorites; null hides the save button
+  saved: boolean | null;
+  // Object URL of the current clip's WebVTT, offered as a download
+  captionsUrl: string | null;
+  captionsFilename: string;
+  // 1-based position of the current clip, and how many are loaded
+  position: number;
+  total: number;
+  // More clips can be fetched beyond `total`
+  hasMore: boolean;
+  onTogglePlay: () => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onReplay: () => void;
+  onToggleLoop: () => void;
+  onTightChange: (tight: boolean, padding: number) => void;
+  onRateChange: (rate: number) => void;
+  onVolumeChange: (volume: number) => void;
+  onToggleMute: () => void;
+  onToggleFullscreen: () => void;
+  onToggleCaptions: () => void;
+  onToggleStudy: () => void;
+  onToggleSave: () => void;
+}
+
+function ControlButton({ label, active = false, onClick, children }: {
+  label: string;
+  active?: boolean;
+  onClick: () => void;
+  children: React.ReactNode;
+}) {
+  return (
+    <button
+      type="button"
+      onClick={onClick}
+      aria-label={label}
+      aria-pressed={active || undefined}
+      title={label}
+      className={`w-9 h-9 flex items-center justify-center rounded hover:bg-white/20 ${active ? 'text-yellow-400' : 'text-white'}`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export default function PlayerControls(props: PlayerControlsProps) {
+  const { playing, loop, tight, padding, rate, volume, muted, fullscreen, nativeCaptions, study, saved, captionsUrl, captionsFilename, position, total, hasMore } = props;
+
+  return (
+    <div className="flex items-center gap-1 px-3 py-2 rounded-lg bg-black/70 text-white text-sm">
+      <ControlButton label="Previous clip (←)" onClick={props.onPrevious}>⏮</ControlButton>
+      <ControlButton label={playing ? 'Pause (Space)' : 'Play (Space)'} onClick={props.onTogglePlay}>
+        {playing ? '⏸' : '▶'}
+      </ControlButton>
+      <ControlButton label="Next clip (→)" onClick={props.onNext}>⏭</ControlButton>
+      <ControlButton label="Replay clip (R)" onClick={props.onReplay}>↺</ControlButton>
+      <ControlButton label="Loop this clip (L)" active={loop} onClick={props.onToggleLoop}>🔁</ControlButton>
+      <ControlButton label="Play only the phrase (T)" active={tight} onClick={() => props.onTightChange(!tight, padding)}>
+        ✂
+      </ControlButton>
+      {tight && (
+        <select
+          value={padding}
+          onChange={(event) => props.onTightChange(true, Number(event.target.value))}
+          aria-label="Padding around the phrase"
+          className="rounded bg-white/10 px-1 py-1"
+        >
+          {/* Keep a custom padding from the URL selectable */}
+          {(TIGHT_PADDINGS.includes(padding) ? TIGHT_PADDINGS : [...TIGHT_PADDINGS, padding].sort((a, b) => a - b)).map((option) => (
+            <option key={option} value={option} className="bg-neutral-900">
+              ±{option / 1000}s
+            </option>
+          ))}
+        </select>
+      )}
+
+      <span className="mx-2 tabular-nums text-gray-300" aria-label="Clip position">
+        {position} / {total}{hasMore && '+'}
+      </span>
+
+      <select
+        value={rate}
+        onChange={(event) => props.onRateChange(Number(event.target.value))}
+        aria-label="Playback speed"
+        className="rounded bg-white/10 px-1 py-1"
+      >
+        {PLAYBACK_RATES.map((option) => (
+          <option key={option} value={option} className="bg-neutral-900">
+            {option}x
+          </option>
+        ))}
+      </select>
+
+      <ControlButton label={muted ? 'Unmute (M)' : 'Mute (M)'} onClick={props.onToggleMute}>
+        {muted || volume === 0 ? '🔇' : '🔊'}
+      </ControlButton>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={muted ? 0 : volume}
+        onChange={(event) => props.onVolumeChange(Number(event.target.value))}
+        aria-label="Volume"
+        className="w-20 accent-yellow-400"
+      />
+
+      <ControlButton label="Native captions (C)" active={nativeCaptions} onClick={props.onToggleCaptions}>CC</ControlButton>
+      <ControlButton label="Study mode (D)" active={study} onClick={props.onToggleStudy}>✎</ControlButton>
+      {captionsUrl && (
+        <a
+          href={captionsUrl}
+          download={captionsFilename}
+          aria-label="Download captions"
+          title="Download captions"
+          className="w-9 h-9 flex items-center justify-center rounded hover:bg-white/20"
+        >
+          ⤓
+        </a>
+      )}
+
+      {saved !== null && (
+        <ControlButton label={saved ? 'Remove from favorites (S)' : 'Save to favorites (S)'} active={saved} onClick={props.onToggleSave}>
+          {saved ? '★' : '☆'}
+        </ControlButton>
+      )}
+
+      <ControlButton label={fullscreen ? 'Exit fullscreen (F)' : 'Fullscreen (F)'} onClick={props.onToggleFullscreen}>
+        {fullscreen ? '🗗' : '⛶'}
+      </ControlButton>
+    </div>
+  );
+}
@@ -0,0 +1,82 @@
+'use client';
+
+import type { ClipSearch } from '@/hooks/useClipSearch';
+import { describeMovie } from '@/lib/clip';
+
+interface ResultsGridProps {
+  search: ClipSearch;
+  onSelect: (index: number) => void;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.max(0, Math.round(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export default function ResultsGrid({ search, onSelect }: ResultsGridProps) {
+  const { videos, subtitles, nextCursor, loadingMore, loadMore } = search;
+
+  return (
+    <div className="w-full max-w-6xl">
+      <ul className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+        {videos.map((url, index) => {
+          const subtitle = subtitles[index];
+          return (
+            <li key={`${index}-${url}`}>
+              <button
+                type="button"
+                onClick={() => onSelect(index)}
+                className="group w-full text-left rounded overflow-hidden bg-white/5 hover:bg-white/10 focus:outline-none focus:ring-2 focus:ring-yellow-400"
+              >
+                <div className="relative aspect-video bg-black">
+                  {/* A media fragment makes the browser fetch just enough to paint a frame */}
+                  <video
+                    // Through the proxy, like the player: CDN links expire and are cross-origin
+                    src={`${subtitle?.proxy ?? url}#t=0.5`}
+                    preload="metadata"
+                    muted
+                    playsInline
+                    className="w-full h-full object-cover pointer-events-none"
+                  />
+                  <span className="absolute inset-0 flex items-center justify-center text-4xl text-white opacity-0 group-hover:opacity-100 transition-opacity">
+                    ▶
+                  </span>
+                  {subtitle && subtitle.end > subtitle.start && (
+                    <span className="absolute bottom-1 right-1 rounded bg-black/70 px-1.5 text-xs text-white">
+                      {formatDuration(subtitle.end - subtitle.start)}
+                    </span>
+                  )}
+                </div>
+                <div className="px-3 py-2 text-sm text-gray-200 line-clamp-2">
+                  {subtitle?.words && subtitle.words.length > 0
+                    ? subtitle.words.map((word, wordIndex) => (
+                      <span key={wordIndex} className={word['searched?'] ? 'text-yellow-400' : ''}>
+                        {word.text}
+                        {wordIndex < subtitle.words.length - 1 && ' '}
+                      </span>
+                    ))
+                    : subtitle?.text}
+                </div>
+                {subtitle?.movie && (
+                  <div className="px-3 pb-2 text-xs text-gray-500 truncate">{describeMovie(subtitle.movie)}</div>
+                )}
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+      {nextCursor !== null && (
+        <div className="flex justify-center mt-6">
+          <button
+            type="button"
+            onClick={loadMore}
+            disabled={loadingMore}
+            className="px-4 py-2 rounded bg-white/10 hover:bg-white/20 text-sm disabled:opacity-50"
+          >
+            {loadingMore ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
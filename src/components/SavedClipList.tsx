@@ -0,0 +1,83 @@
+'use client';
+
+import { describeMovie } from '@/lib/clip';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/languages';
+import type { Collection, SavedClip } from '@/lib/saved-clips';
+
+interface SavedClipListProps {
+  collection: Collection;
+  // Every collection, as targets for moving a clip
+  collections: Collection[];
+  onPlay: (index: number) => void;
+  onRemove: (clip: SavedClip) => void;
+  onMove: (clip: SavedClip, targetId: string) => void;
+}
+
+export default function SavedClipList({ collection, collections, onPlay, onRemove, onMove }: SavedClipListProps) {
+  const targets = collections.filter((entry) => entry.id !== collection.id);
+
+  if (collection.clips.length === 0) {
+    return <div className="text-sm text-gray-500">Nothing saved here yet.</div>;
+  }
+
+  return (
+    <ul className="grid gap-4 grid-cols-1 sm:grid-cols-2 lg:grid-cols-3">
+      {collection.clips.map((clip, index) => (
+        <li key={clip.id} className="rounded overflow-hidden bg-white/5">
+          <button
+            type="button"
+            onClick={() => onPlay(index)}
+            aria-label={`Play “${clip.subtitle.text}”`}
+            className="group relative block w-full aspect-video bg-black focus:outline-none focus:ring-2 focus:ring-yellow-400"
+          >
+            <video
+              src={`${clip.video}#t=0.5`}
+              preload="metadata"
+              muted
+              playsInline
+              className="w-full h-full object-cover pointer-events-none"
+            />
+            <span className="absolute inset-0 flex items-center justify-center text-4xl text-white opacity-0 group-hover:opacity-100 transition-opacity">
+              ▶
+            </span>
+          </button>
+          <div className="px-3 py-2 text-sm text-gray-200 line-clamp-2">
+            {clip.subtitle.words.length > 0
+              ? clip.subtitle.words.map((word, wordIndex) => (
+                <span key={wordIndex} className={word['searched?'] ? 'text-yellow-400' : ''}>
+                  {word.text}
+                  {wordIndex < clip.subtitle.words.length - 1 && ' '}
+                </span>
+              ))
+              : clip.subtitle.text}
+          </div>
+          <div className="px-3 text-xs text-gray-500 truncate">
+            “{clip.phrase}”
+            {clip.language !== DEFAULT_LANGUAGE && ` (${getLanguageName(clip.language)})`}
+            {clip.subtitle.movie && ` · ${describeMovie(clip.subtitle.movie)}`}
+          </div>
+          <div className="flex items-center justify-end gap-2 px-3 py-2 text-xs">
+            {targets.length > 0 && (
+              <select
+                value=""
+                onChange={(event) => onMove(clip, event.target.value)}
+                aria-label="Move to collection"
+                className="rounded bg-white/10 px-1 py-1"
+              >
+                <option value="" disabled className="bg-neutral-900">Move to…</option>
+                {targets.map((target) => (
+                  <option key={target.id} value={target.id} className="bg-neutral-900">
+                    {target.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button type="button" onClick={() => onRemove(clip)} className="px-2 py-1 rounded bg-white/10 hover:bg-white/20">
+              Remove
+            </button>
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useId, useMemo, useState } from 'react';
+import { LANGUAGES } from '@/lib/languages';
+import type { RecentSearch } from '@/lib/search-history';
+import { getSuggestions } from '@/lib/suggestions';
+
+interface SearchFormProps {
+  initialPhrase?: string;
+  initialLanguage: string;
+  recent: RecentSearch[];
+  onSearch: (phrase: string, language: string) => void;
+  // Larger layout for the landing page
+  prominent?: boolean;
+}
+
+export default function SearchForm({ initialPhrase = '', initialLanguage, recent, onSearch, prominent = false }: SearchFormProps) {
+  const [phrase, setPhrase] = useState(initialPhrase);
+  const [language, setLanguage] = useState(initialLanguage);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  // Suggestion highlighted with the arrow keys; -1 when none is
+  const [activeSuggestion, setActiveSuggestion] = useState(-1);
+  const listId = useId();
+
+  // Follow the URL when it changes underneath us (back/forward, recent searches)
+  useEffect(() => {
+    setPhrase(initialPhrase);
+  }, [initialPhrase]);
+
+  useEffect(() => {
+    setLanguage(initialLanguage);
+  }, [initialLanguage]);
+
+  const suggestions = useMemo(() => getSuggestions(phrase, language, recent), [phrase, language, recent]);
+  const suggestionsOpen = showSuggestions && suggestions.length > 0;
+
+  const submit = (value: string) => {
+    const trimmed = value.trim();
+    if (!trimmed) return;
+    setPhrase(trimmed);
+    setShowSuggestions(false);
+    setActiveSuggestion(-1);
+    onSearch(trimmed, language);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!suggestionsOpen) return;
+
+    switch (event.key) {
+      case 'ArrowDown':
+        event.preventDefault();
+        setActiveSuggestion((index) => (index + 1) % suggestions.length);
+        break;
+      case 'ArrowUp':
+        event.preventDefault();
+        setActiveSuggestion((index) => (index <= 0 ? suggestions.length - 1 : index - 1));
+        break;
+      case 'Enter':
+        if (activeSuggestion >= 0) {
+          event.preventDefault();
+          submit(suggestions[activeSuggestion]);
+        }
+        break;
+      case 'Escape':
+        setShowSuggestions(false);
+        setActiveSuggestion(-1);
+        break;
+    }
+  };
+
+  return (
+    <form
+      role="search"
+      onSubmit={(event) => {
+        event.preventDefault();
+        submit(phrase);
+      }}
+      className={`flex gap-2 w-full ${prominent ? 'max-w-2xl' : 'max-w-3xl'}`}
+    >
+      <div className="relative flex-1">
+        <input
+          type="search"
+          value={phrase}
+          onChange={(event) => {
+            setPhrase(event.target.value);
+            setShowSuggestions(true);
+            setActiveSuggestion(-1);
+          }}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
+          onKeyDown={handleKeyDown}
+          placeholder="Type a phrase, e.g. here we go again"
+          aria-label="Phrase"
+          role="combobox"
+          aria-autocomplete="list"
+          aria-expanded={suggestionsOpen}
+          aria-controls={listId}
+          aria-activedescendant={activeSuggestion >= 0 ? `${listId}-${activeSuggestion}` : undefined}
+          autoComplete="off"
+          autoFocus={prominent}
+          className={`w-full rounded bg-white/10 text-white placeholder-gray-500 outline-none focus:ring-2 focus:ring-yellow-400 ${prominent ? 'px-4 py-3 text-lg' : 'px-3 py-2'}`}
+        />
+        {suggestionsOpen && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="absolute z-10 left-0 right-0 mt-1 rounded bg-neutral-900 border border-white/10 shadow-lg overflow-hidden"
+          >
+            {suggestions.map((suggestion, index) => (
+              <li
+                key={suggestion}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={index === activeSuggestion}
+                // Keep focus in the input so the list doesn't close before the click lands
+                onMouseDown={(event) => event.preventDefault()}
+                onClick={() => submit(suggestion)}
+                className={`px-4 py-2 cursor-pointer text-sm ${index === activeSuggestion ? 'bg-white/20' : 'hover:bg-white/10'}`}
+              >
+                {suggestion}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <select
+        value={language}
+        onChange={(event) => setLanguage(event.target.value)}
+        aria-label="Language"
+        className="rounded bg-white/10 text-white px-2"
+      >
+        {LANGUAGES.map(({ code, name }) => (
+          <option key={code} value={code} className="bg-neutral-900">
+            {name}
+          </option>
+        ))}
+      </select>
+      <button
+        type="submit"
+        disabled={!phrase.trim()}
+        className={`rounded bg-yellow-400 text-black font-medium hover:bg-yellow-300 disabled:opacity-50 ${prominent ? 'px-6' : 'px-4'}`}
+      >
+        Search
+      </button>
+    </form>
+  );
+}
@@ -0,0 +1,317 @@
+'use client';
+
+import { useCallback, useEffect, useState, Suspense } from 'react';
+import Link from 'next/link';
+import { useRouter, useSearchParams } from 'next/navigation';
+import CompilationExport from '@/components/CompilationExport';
+import ErrorScreen from '@/components/ErrorScreen';
+import ResultsGrid from '@/components/ResultsGrid';
+import SearchForm from '@/components/SearchForm';
+import VideoPlayer from '@/components/VideoPlayer';
+import { useClipSearch } from '@/hooks/useClipSearch';
+import { useCollections } from '@/hooks/useCollections';
+import { DEFAULT_TIGHT_PADDING_MS } from '@/lib/clip';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/languages';
+import { getDueItems, loadReviewQueue } from '@/lib/review-queue';
+import {
+  clearRecentSearches,
+  loadRecentSearches,
+  removeRecentSearch,
+  saveRecentSearch,
+  type RecentSearch,
+} from '@/lib/search-history';
+import { EMBED_HEIGHT, EMBED_WIDTH, embedHtml, embedPath, parsePadding, phraseTitle } from '@/lib/sharing';
+
+interface PageUrlOptions {
+  play?: number;
+  tight?: boolean;
+  padding?: number;
+  filter?: string | null;
+  exclude?: string | null;
+}
+
+// The URL is the source of truth for what is on screen, so any view can be
+// shared: `?phrase=...&language=...` shows results, `&play=N` opens the
+// player at clip N, `&tight=1[&padding=ms]` plays just the phrase, and
+// `filter`/`exclude` narrow results by source title or genre.
+function pageUrl(
+  phrase: string,
+  language: string,
+  { play, tight = false, padding = DEFAULT_TIGHT_PADDING_MS, filter, exclude }: PageUrlOptions = {}
+): string {
+  const params = new URLSearchParams({ phrase, language });
+  if (filter) {
+    params.set('filter', filter);
+  }
+  if (exclude) {
+    params.set('exclude', exclude);
+  }
+  if (play !== undefined) {
+    params.set('play', String(play));
+  }
+  if (tight) {
+    params.set('tight', '1');
+    if (padding !== DEFAULT_TIGHT_PADDING_MS) {
+      params.set('padding', String(padding));
+    }
+  }
+  return `/?${params}`;
+}
+
+function SearchView() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const phrase = searchParams.get('phrase')?.trim() || null;
+  const language = searchParams.get('language') || DEFAULT_LANGUAGE;
+  const playParam = searchParams.get('play');
+  const playIndex = playParam !== null ? Math.max(0, Number.parseInt(playParam, 10) || 0) : null;
+  const tight = searchParams.get('tight') === '1';
+  const padding = parsePadding(searchParams.get('padding'));
+  const filter = searchParams.get('filter');
+  const exclude = searchParams.get('exclude');
+  // Carried over when moving between the results and the player
+  const current = { tight, padding, filter, exclude };
+
+  const search = useClipSearch(phrase, language, { filter, exclude });
+  const collections = useCollections();
+  const [recent, setRecent] = useState<RecentSearch[]>([]);
+  const [exporting, setExporting] = useState(false);
+  // The embed code last copied, so the button resets when the search changes
+  const [copiedEmbed, setCopiedEmbed] = useState<string | null>(null);
+  const [dueReviews, setDueReviews] = useState(0);
+
+  // localStorage is only available after hydration
+  useEffect(() => {
+    setRecent(loadRecentSearches());
+    setDueReviews(getDueItems(loadReviewQueue()).length);
+  }, []);
+
+  // Record every search we show, including ones opened from a shared link
+  useEffect(() => {
+    if (phrase) {
+      setRecent(saveRecentSearch(phrase, language));
+    }
+  }, [phrase, language]);
+
+  const handleSearch = useCallback((nextPhrase: string, nextLanguage: string) => {
+    router.push(pageUrl(nextPhrase, nextLanguage, { tight, padding }));
+  }, [router, tight, padding]);
+
+  const handleIndexChange = useCallback((index: number) => {
+    if (phrase && index !== playIndex) {
+      router.replace(pageUrl(phrase, language, { play: index, tight, padding, filter, exclude }), { scroll: false });
+    }
+  }, [router, phrase, language, playIndex, tight, padding, filter, exclude]);
+
+  const handleTightChange = useCallback((nextTight: boolean, nextPadding: number) => {
+    if (phrase) {
+      router.replace(
+        pageUrl(phrase, language, { play: playIndex ?? undefined, tight: nextTight, padding: nextPadding, filter, exclude }),
+        { scroll: false }
+      );
+    }
+  }, [router, phrase, language, playIndex, filter, exclude]);
+
+  const { toggleFavorite } = collections;
+  const handleToggleSave = useCallback((index: number) => {
+    const video = search.videos[index];
+    const subtitle = search.subtitles[index];
+    if (!phrase || !video || !subtitle) return;
+    toggleFavorite({ phrase, language, video, subtitle }).catch((err) => {
+      console.error('Error saving clip:', err);
+    });
+  }, [toggleFavorite, phrase, language, search.videos, search.subtitles]);
+
+  const embedCode = phrase
+    ? embedHtml(
+      `${typeof window === 'undefined' ? '' : window.location.origin}${embedPath(phrase, language, { tight, padding })}`,
+      phraseTitle(phrase, language),
+      EMBED_WIDTH,
+      EMBED_HEIGHT
+    )
+    : '';
+
+  const copyEmbedCode = () => {
+    navigator.clipboard.writeText(embedCode).then(
+      () => setCopiedEmbed(embedCode),
+      (err) => console.error('Error copying embed code:', err)
+    );
+  };
+
+  const handleClose = useCallback(() => {
+    if (phrase) {
+      router.replace(pageUrl(phrase, language, { tight, padding, filter, exclude }), { scroll: false });
+    }
+  }, [router, phrase, language, tight, padding, filter, exclude]);
+
+  if (!phrase) {
+    return (
+      <main className="min-h-screen bg-black text-white flex flex-col items-center px-4 pt-[20vh] gap-8">
+        <h1 className="text-4xl font-bold">Phrase to Clip</h1>
+        <p className="text-gray-400 text-center">Hear any phrase spoken in movies and TV shows.</p>
+        <SearchForm initialLanguage={language} recent={recent} onSearch={handleSearch} prominent />
+        <Link href="/playlists/new" className="-mt-4 text-sm text-gray-400 hover:text-yellow-400">
+          or build a playlist of several phrases →
+        </Link>
+        <Link href="/collections" className="-mt-6 text-sm text-gray-400 hover:text-yellow-400">
+          ★ Saved clips
+        </Link>
+        <Link href="/review" className="-mt-6 text-sm text-gray-400 hover:text-yellow-400">
+          ✎ Review missed lines{dueReviews > 0 && ` (${dueReviews} due)`}
+        </Link>
+        {recent.length > 0 && (
+          <section className="w-full max-w-2xl">
+            <div className="flex items-center justify-between mb-2 text-sm text-gray-400">
+              <h2>Recent searches</h2>
+              <button
+                type="button"
+                onClick={() => {
+                  clearRecentSearches();
+                  setRecent([]);
+                }}
+                className="hover:text-white"
+              >
+                Clear
+              </button>
+            </div>
+            <ul className="flex flex-wrap gap-2">
+              {recent.map((entry) => (
+                <li key={`${entry.language}:${entry.phrase}`} className="flex items-center rounded-full bg-white/10 text-sm">
+                  <button
+                    type="button"
+                    onClick={() => handleSearch(entry.phrase, entry.language)}
+                    className="pl-3 pr-1 py-1 hover:text-yellow-400"
+                  >
+                    {entry.phrase}
+                    {entry.language !== DEFAULT_LANGUAGE && (
+                      <span className="ml-1 text-gray-500">({getLanguageName(entry.language)})</span>
+                    )}
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => setRecent(removeRecentSearch(entry))}
+                    aria-label={`Remove ${entry.phrase} from recent searches`}
+                    className="pl-1 pr-3 py-1 text-gray-500 hover:text-white"
+                  >
+                    ×
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+      </main>
+    );
+  }
+
+  if (playIndex !== null && !search.loading && !search.error && search.videos.length > 0) {
+    return (
+      <VideoPlayer
+        // Restart playback state for each new search
+        key={`${language}:${phrase}`}
+        search={search}
+        language={language}
+        // Saving needs the collections store; without it the button stays hidden
+        favorites={collections.favorites}
+        onToggleSave={collections.loading || collections.error ? undefined : handleToggleSave}
+        startIndex={playIndex}
+        tight={tight}
+        padding={padding}
+        onIndexChange={handleIndexChange}
+        onTightChange={handleTightChange}
+        onClose={handleClose}
+      />
+    );
+  }
+
+  return (
+    <main className="min-h-screen bg-black text-white flex flex-col items-center px-4 py-6 gap-6">
+      <div className="w-full max-w-6xl flex items-center gap-4">
+        <button
+          type="button"
+          onClick={() => router.push('/')}
+          className="text-lg font-bold whitespace-nowrap hover:text-yellow-400"
+        >
+          Phrase to Clip
+        </button>
+        <SearchForm initialPhrase={phrase} initialLanguage={language} recent={recent} onSearch={handleSearch} />
+      </div>
+      {search.loading ? (
+        <div className="py-12 text-gray-400">Loading videos...</div>
+      ) : search.error ? (
+        <ErrorScreen error={search.error} onRetry={search.retry} />
+      ) : (
+        <>
+          <div className="w-full max-w-6xl flex items-center justify-between">
+            <div>
+              <h1 className="text-gray-400 text-sm">
+                {search.match ? (
+                  <>
+                    No exact matches for “{phrase}”. Showing results for{' '}
+                    <span className="text-white">“{search.match.phrase}”</span>
+                    {search.match.strategy === 'sub-phrase' && ', part of the phrase'}
+                  </>
+                ) : (
+                  <>Clips for <span className="text-white">“{phrase}”</span></>
+                )}
+              </h1>
+              {(filter || exclude) && (
+                <div className="text-xs text-gray-500">
+                  {filter && <>Only from {filter}. </>}
+                  {exclude && <>Excluding {exclude}. </>}
+                  <button
+                    type="button"
+                    onClick={() => router.push(pageUrl(phrase, language, { tight, padding }))}
+                    className="underline hover:text-white"
+                  >
+                    Clear filters
+                  </button>
+                </div>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="button"
+                onClick={() => setExporting(true)}
+                className="px-4 py-2 rounded bg-white/10 text-sm hover:bg-white/20"
+              >
+                Export supercut
+              </button>
+              <button
+                type="button"
+                onClick={copyEmbedCode}
+                className="px-4 py-2 rounded bg-white/10 text-sm hover:bg-white/20"
+              >
+                {copiedEmbed === embedCode ? 'Embed code copied' : 'Copy embed code'}
+              </button>
+              <button
+                type="button"
+                onClick={() => router.push(pageUrl(phrase, language, { ...current, play: 0 }))}
+                className="px-4 py-2 rounded bg-yellow-400 text-black text-sm font-medium hover:bg-yellow-300"
+              >
+                ▶ Play all
+              </button>
+            </div>
+          </div>
+          <ResultsGrid search={search} onSelect={(index) => router.push(pageUrl(phrase, language, { ...current, play: index }))} />
+          {exporting && (
+            <CompilationExport phrase={phrase} search={search} onClose={() => setExporting(false)} />
+          )}
+        </>
+      )}
+    </main>
+  );
+}
+
+// The app's home: the search box, and the results and player for a phrase
+export default function SearchPage() {
+  return (
+    <Suspense fallback={
+      <div className="fixed inset-0 flex items-center justify-center bg-black text-white">
+        <div>Loading...</div>
+      </div>
+    }>
+      <SearchView />
+    </Suspense>
+  );
+}
@@ -0,0 +1,145 @@
+'use client';
+
+import { useState, type RefObject } from 'react';
+import SubtitleOverlay from '@/components/SubtitleOverlay';
+import { useTranslation, useTranslationAvailable } from '@/hooks/useTranslation';
+import type { Subtitle } from '@/lib/clip';
+import { scoreDictation, type DictationResult } from '@/lib/dictation';
+import { LANGUAGES } from '@/lib/languages';
+import { recordDictation } from '@/lib/review-queue';
+import { loadTranslateTo, saveTranslateTo } from '@/lib/study-settings';
+
+interface StudyPanelProps {
+  subtitle: Subtitle;
+  language: string;
+  // The clip's video URL; with the subtitle's proxy path it keys the line in the review queue
+  video: string;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  // See SubtitleOverlay
+  slot: number;
+  onSeek: (timeMs: number) => void;
+}
+
+const TOKEN_CLASSES = {
+  correct: 'text-green-400',
+  missed: 'text-red-400 line-through',
+  extra: 'text-gray-500 italic',
+};
+
+// Study mode's stand-in for the subtitle overlay: the line stays hidden until
+// revealed, the learner can type what they heard to have it checked word by
+// word, and lines they get wrong go into the review queue. Mounted per clip.
+export default function StudyPanel({ subtitle, language, video, videoRef, slot, onSeek }: StudyPanelProps) {
+  const [revealed, setRevealed] = useState(false);
+  const [attempt, setAttempt] = useState('');
+  const [result, setResult] = useState<DictationResult | null>(null);
+  const [translateTo, setTranslateTo] = useState(loadTranslateTo);
+  const translationAvailable = useTranslationAvailable();
+  const translation = useTranslation(subtitle.text, language, revealed && translationAvailable ? translateTo : null);
+
+  const check = () => {
+    const words = subtitle.words.length > 0 ? subtitle.words.map((word) => word.text) : [subtitle.text];
+    const scored = scoreDictation(words, attempt, language);
+    setResult(scored);
+    setRevealed(true);
+    recordDictation({ language, video, subtitle }, scored.perfect);
+  };
+
+  return (
+    <>
+      <div className="absolute top-28 left-1/2 -translate-x-1/2 w-[min(40rem,90vw)] flex flex-col gap-2 px-4 py-3 rounded-lg bg-black/70 text-white text-sm">
+        <form
+          onSubmit={(event) => {
+            event.preventDefault();
+            if (attempt.trim() && !result) {
+              check();
+            }
+          }}
+          className="flex gap-2"
+        >
+          <input
+            type="text"
+            value={attempt}
+            onChange={(event) => setAttempt(event.target.value)}
+            onKeyDown={(event) => {
+              // Hand the keyboard back to the player shortcuts
+              if (event.key === 'Escape') {
+                event.currentTarget.blur();
+              }
+            }}
+            readOnly={result !== null}
+            placeholder="Type what you hear, then press Enter"
+            aria-label="Dictation"
+            lang={language}
+            className="flex-1 rounded bg-white/10 px-3 py-2 outline-none focus:ring-2 focus:ring-yellow-400"
+          />
+          {result ? (
+            <button
+              type="button"
+              onClick={() => {
+                setResult(null);
+                setAttempt('');
+              }}
+              className="px-3 py-2 rounded bg-white/10 hover:bg-white/20"
+            >
+              Try again
+            </button>
+          ) : (
+            <button type="submit" disabled={!attempt.trim()} className="px-3 py-2 rounded bg-yellow-400 text-black font-medium hover:bg-yellow-300 disabled:opacity-50">
+              Check
+            </button>
+          )}
+          {!revealed && (
+            <button type="button" onClick={() => setRevealed(true)} className="px-3 py-2 rounded bg-white/10 hover:bg-white/20">
+              Show line
+            </button>
+          )}
+        </form>
+        {result && (
+          <div>
+            <span lang={language}>
+              {result.tokens.map((token, index) => (
+                <span key={index} className={TOKEN_CLASSES[token.status]}>
+                  {token.text}
+                  {result.spaced && index < result.tokens.length - 1 && ' '}
+                </span>
+              ))}
+            </span>
+            <span className="ml-3 text-gray-400 tabular-nums">
+              {result.correct} / {result.total}
+              {result.perfect ? ' · Perfect' : ' · Added to your review queue'}
+            </span>
+          </div>
+        )}
+        {translationAvailable && (
+          <div className="flex flex-wrap items-center gap-2 text-gray-400">
+            <select
+              value={translateTo ?? ''}
+              onChange={(event) => {
+                const value = event.target.value || null;
+                setTranslateTo(value);
+                saveTranslateTo(value);
+              }}
+              aria-label="Translate to"
+              className="rounded bg-white/10 px-1 py-1"
+            >
+              <option value="" className="bg-neutral-900">No translation</option>
+              {LANGUAGES.filter((entry) => entry.code !== language).map((entry) => (
+                <option key={entry.code} value={entry.code} className="bg-neutral-900">
+                  Translate to {entry.name}
+                </option>
+              ))}
+            </select>
+            {revealed && translateTo && translateTo !== language && (
+              <span lang={translateTo} className={translation.error ? 'text-red-400' : 'text-gray-200'}>
+                {translation.loading ? 'Translating…' : translation.error ?? translation.translation}
+              </span>
+            )}
+            {!revealed && translateTo && <span>Shown with the line</span>}
+          </div>
+        )}
+      </div>
+      {revealed && <SubtitleOverlay subtitle={subtitle} videoRef={videoRef} slot={slot} onSeek={onSeek} />}
+    </>
+  );
+}
@@ -0,0 +1,121 @@
+'use client';
+
+import { useEffect, useRef, useState, type CSSProperties, type RefObject } from 'react';
+import { findActiveWordIndex, type Subtitle } from '@/lib/clip';
+
+interface SubtitleOverlayProps {
+  subtitle: Subtitle;
+  videoRef: RefObject<HTMLVideoElement | null>;
+  // Which of the player's <video> elements `videoRef` points at; the
+  // listeners move over when it changes
+  slot: number;
+  onSeek: (timeMs: number) => void;
+}
+
+// Tailwind white, yellow-400 and cyan-300
+const TEXT_COLOR = '#ffffff';
+const SEARCHED_COLOR = '#facc15';
+const FILL_COLOR = '#67e8f9';
+
+// The active word is painted with a gradient clipped to its glyphs; the
+// animation loop moves the `--fill` stop without re-rendering
+function fillStyle(baseColor: string): CSSProperties {
+  return {
+    backgroundImage: `linear-gradient(to right, ${FILL_COLOR} var(--fill, 0%), ${baseColor} var(--fill, 0%))`,
+    WebkitBackgroundClip: 'text',
+    backgroundClip: 'text',
+    color: 'transparent',
+  };
+}
+
+export default function SubtitleOverlay({ subtitle, videoRef, slot, onSeek }: SubtitleOverlayProps) {
+  const [activeIndex, setActiveIndex] = useState(-1);
+  const wordRefs = useRef<(HTMLButtonElement | null)[]>([]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    const { words } = subtitle;
+    if (!video || words.length === 0) return;
+
+    let frame = 0;
+    let lastIndex = -1;
+
+    const update = () => {
+      // Word start/end are in milliseconds from the start of the clip
+      const timeMs = video.currentTime * 1000;
+      const index = findActiveWordIndex(words, timeMs);
+      if (index !== lastIndex) {
+        lastIndex = index;
+        setActiveIndex(index);
+      }
+      if (index >= 0) {
+        const word = words[index];
+        const duration = word.end - word.start;
+        const fill = duration > 0 ? Math.min(1, (timeMs - word.start) / duration) : 1;
+        wordRefs.current[index]?.style.setProperty('--fill', `${fill * 100}%`);
+      }
+    };
+
+    const tick = () => {
+      update();
+      frame = requestAnimationFrame(tick);
+    };
+    const start = () => {
+      cancelAnimationFrame(frame);
+      frame = requestAnimationFrame(tick);
+    };
+    const stop = () => {
+      cancelAnimationFrame(frame);
+      update();
+    };
+
+    video.addEventListener('play', start);
+    video.addEventListener('pause', stop);
+    video.addEventListener('seeked', update);
+    if (video.paused) {
+      update();
+    } else {
+      start();
+    }
+
+    return () => {
+      cancelAnimationFrame(frame);
+      video.removeEventListener('play', start);
+      video.removeEventListener('pause', stop);
+      video.removeEventListener('seeked', update);
+    };
+  }, [subtitle, videoRef, slot]);
+
+  return (
+    <div className="absolute bottom-24 left-1/2 transform -translate-x-1/2 bg-black/70 text-white px-6 py-3 rounded-lg text-xl font-medium max-w-4xl text-center">
+      {subtitle.words.length > 0 ? (
+        <span>
+          {subtitle.words.map((word, index) => {
+            const searched = word['searched?'];
+            const baseColor = searched ? SEARCHED_COLOR : TEXT_COLOR;
+            return (
+              <span key={index}>
+                <button
+                  type="button"
+                  ref={(element) => {
+                    wordRefs.current[index] = element;
+                  }}
+                  onClick={() => onSeek(word.start)}
+                  title="Play from here"
+                  className={`cursor-pointer rounded-sm hover:underline focus-visible:outline-2 focus-visible:outline-offset-2 focus-visible:outline-white ${searched ? 'font-bold underline decoration-2 underline-offset-4' : ''}`}
+                  style={index === activeIndex ? fillStyle(baseColor) : { color: baseColor }}
+                >
+                  {word.text}
+                </button>
+                {index < subtitle.words.length - 1 && ' '}
+              </span>
+            );
+          })}
+        </span>
+      ) : (
+        // Fallback to plain text if no word data
+        subtitle.text
+      )}
+    </div>
+  );
+}
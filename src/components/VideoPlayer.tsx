@@ -0,0 +1,667 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState, useRef } from 'react';
+import PlayerControls, { PLAYBACK_RATES } from '@/components/PlayerControls';
+import StudyPanel from '@/components/StudyPanel';
+import SubtitleOverlay from '@/components/SubtitleOverlay';
+import type { ClipSearch } from '@/hooks/useClipSearch';
+import { toVtt } from '@/lib/captions';
+import { clipKey, describeMovie, getPhraseSpan } from '@/lib/clip';
+import { getLanguageName } from '@/lib/languages';
+import type { EmbedTheme } from '@/lib/sharing';
+
+// Start fetching the next page once the loop is this many clips from the end
+const PREFETCH_THRESHOLD = 2;
+const VOLUME_STEP = 0.1;
+// Controls fade out after this long without pointer or keyboard activity
+const CONTROLS_HIDE_DELAY_MS = 3000;
+const NOTICE_DURATION_MS = 3000;
+
+interface FullscreenDocument extends Document {
+  webkitFullscreenElement?: Element | null;
+  webkitExitFullscreen?: () => Promise<void>;
+}
+
+interface FullscreenElement extends HTMLElement {
+  webkitRequestFullscreen?: () => Promise<void>;
+}
+
+function getFullscreenElement(): Element | null {
+  const doc = document as FullscreenDocument;
+  return doc.fullscreenElement ?? doc.webkitFullscreenElement ?? null;
+}
+
+async function enterFullscreen(element: HTMLElement) {
+  const target = element as FullscreenElement;
+  if (target.requestFullscreen) {
+    await target.requestFullscreen();
+  } else if (target.webkitRequestFullscreen) {
+    await target.webkitRequestFullscreen();
+  }
+}
+
+async function exitFullscreen() {
+  const doc = document as FullscreenDocument;
+  if (doc.exitFullscreen) {
+    await doc.exitFullscreen();
+  } else if (doc.webkitExitFullscreen) {
+    await doc.webkitExitFullscreen();
+  }
+}
+
+// Shortcuts shouldn't fire while the user is typing or using a form control
+function isEditableTarget(target: EventTarget | null): boolean {
+  return target instanceof HTMLElement
+    && (target.isContentEditable || ['INPUT', 'SELECT', 'TEXTAREA'].includes(target.tagName));
+}
+
+// Where a playlist section starts in the clip sequence
+export interface PlayerSection {
+  title: string;
+  language: string;
+  startIndex: number;
+}
+
+interface VideoPlayerProps {
+  search: ClipSearch;
+  language: string;
+  // Playlists play several phrases in a row; each gets a header while it plays
+  sections?: PlayerSection[];
+  // Keys of saved clips (see `clipKey`); the save button is shown when `onToggleSave` is set
+  favorites?: ReadonlySet<string>;
+  onToggleSave?: (index: number) => void;
+  // Open in study mode: subtitles hidden until revealed, with dictation
+  study?: boolean;
+  startIndex: number;
+  // Tight mode plays only the searched words plus `padding` ms either side
+  tight: boolean;
+  padding: number;
+  onIndexChange: (index: number) => void;
+  onTightChange: (tight: boolean, padding: number) => void;
+  // Shows the back button and closes on Escape when set
+  onClose?: () => void;
+  // Embeds wait for a click unless asked to autoplay; browsers only allow
+  // autoplay when muted
+  autoPlay?: boolean;
+  muted?: boolean;
+  // Letterbox color, for embeds on light pages
+  theme?: EmbedTheme;
+  // Link to the full app, shown where the back button would be
+  homeHref?: string;
+}
+
+export default function VideoPlayer({
+  search,
+  language,
+  sections = [],
+  favorites,
+  onToggleSave,
+  study: initialStudy = false,
+  startIndex,
+  tight,
+  padding,
+  onIndexChange,
+  onTightChange,
+  onClose,
+  autoPlay = true,
+  muted: initialMuted = false,
+  theme = 'dark',
+  homeHref,
+}: VideoPlayerProps) {
+  const { videos, subtitles, nextCursor, loadMore } = search;
+  const [currentIndex, setCurrentIndex] = useState(startIndex);
+  const [playing, setPlaying] = useState(false);
+  const [loop, setLoop] = useState(false);
+  const [rate, setRate] = useState(1);
+  const [volume, setVolume] = useState(1);
+  const [muted, setMuted] = useState(initialMuted);
+  const [fullscreen, setFullscreen] = useState(false);
+  const [controlsVisible, setControlsVisible] = useState(true);
+  // Show the browser's own rendering of the <track> instead of our overlay
+  const [nativeCaptions, setNativeCaptions] = useState(false);
+  const [study, setStudy] = useState(initialStudy);
+  const [captionsUrl, setCaptionsUrl] = useState<string | null>(null);
+  const trackRef = useRef<HTMLTrackElement>(null);
+  const hideControlsTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const loadedClipRef = useRef<{ index: number; url: string } | null>(null);
+  // Two <video> elements take turns: one plays while the other buffers the
+  // next clip, so moving on is a swap rather than a fresh load
+  const [activeSlot, setActiveSlot] = useState(0);
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const standbyRef = useRef<HTMLVideoElement>(null);
+  const preloadedRef = useRef<{ index: number; url: string } | null>(null);
+  // Brief message about a clip that was skipped
+  const [notice, setNotice] = useState<string | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  // Set by the first play; until then clips load without starting unless `autoPlay`
+  const startedRef = useRef(autoPlay);
+
+  // The part of the current clip to play in tight mode; null plays all of it
+  const currentWords = subtitles[currentIndex]?.words;
+  const span = useMemo(
+    () => (tight && currentWords ? getPhraseSpan(currentWords, padding) : null),
+    [tight, padding, currentWords]
+  );
+  const spanRef = useRef(span);
+  spanRef.current = span;
+
+  // The same-origin proxy re-resolves expired CDN links, so prefer it
+  const clipSource = useCallback(
+    (index: number) => subtitles[index]?.proxy ?? videos[index],
+    [videos, subtitles]
+  );
+
+  const sectionIndex = sections.findLastIndex((section) => section.startIndex <= currentIndex);
+  const section = sectionIndex >= 0 ? sections[sectionIndex] : null;
+  const clipLanguage = section?.language ?? language;
+
+  // Keep the `play` parameter pointing at the clip on screen so links stay shareable
+  useEffect(() => {
+    if (currentIndex < videos.length) {
+      onIndexChange(currentIndex);
+    }
+  }, [currentIndex, videos.length, onIndexChange]);
+
+  // Lazily fetch the next page as playback approaches the end of what we have
+  useEffect(() => {
+    if (nextCursor === null) return;
+    if (currentIndex < videos.length - PREFETCH_THRESHOLD) return;
+    loadMore();
+  }, [currentIndex, videos.length, nextCursor, loadMore]);
+
+  const goNext = useCallback(() => {
+    setCurrentIndex((prev) => {
+      // Keep going while there are more clips or another page is on its way;
+      // only loop back to 0 once every page has been played
+      if (prev + 1 < videos.length || nextCursor !== null) {
+        return prev + 1;
+      }
+      return 0;
+    });
+  }, [videos.length, nextCursor]);
+
+  const goPrevious = useCallback(() => {
+    setCurrentIndex((prev) => (prev > 0 ? prev - 1 : prev));
+  }, []);
+
+  const replay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = (spanRef.current?.start ?? 0) / 1000;
+    video.play().catch((err) => {
+      console.error('Error playing video:', err);
+    });
+  }, []);
+
+  const seekTo = useCallback((timeMs: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = timeMs / 1000;
+    video.play().catch((err) => {
+      console.error('Error playing video:', err);
+    });
+  }, []);
+
+  const togglePlay = useCallback(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) {
+      video.play().catch((err) => {
+        console.error('Error playing video:', err);
+      });
+    } else {
+      video.pause();
+    }
+  }, []);
+
+  const toggleFullscreen = useCallback(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    (getFullscreenElement() ? exitFullscreen() : enterFullscreen(container)).catch((err) => {
+      console.error('Error toggling fullscreen:', err);
+    });
+  }, []);
+
+  const changeVolume = useCallback((next: number) => {
+    setVolume(Math.min(1, Math.max(0, Math.round(next * 100) / 100)));
+    setMuted(next <= 0);
+  }, []);
+
+  const showControls = useCallback(() => {
+    setControlsVisible(true);
+    if (hideControlsTimerRef.current) {
+      clearTimeout(hideControlsTimerRef.current);
+    }
+    hideControlsTimerRef.current = setTimeout(() => setControlsVisible(false), CONTROLS_HIDE_DELAY_MS);
+  }, []);
+
+  // Bring the overlay (and with it the section header) back at each new section
+  useEffect(() => {
+    if (sectionIndex >= 0) {
+      showControls();
+    }
+  }, [sectionIndex, showControls]);
+
+  useEffect(() => {
+    return () => {
+      if (hideControlsTimerRef.current) {
+        clearTimeout(hideControlsTimerRef.current);
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || videos.length === 0) return;
+
+    // Looping is handled natively by the `loop` attribute, which suppresses
+    // `ended`, except in tight mode where a span can run to the end of the clip
+    const handleEnded = () => {
+      if (loop && spanRef.current) {
+        replay();
+      } else if (!study) {
+        // Study mode waits on the learner instead of moving on
+        goNext();
+      }
+    };
+
+    const handleError = () => {
+      console.error('Error loading video:', video.error);
+      setNotice('That clip could not be played, skipping it');
+      goNext();
+    };
+
+    const handlePlay = () => {
+      startedRef.current = true;
+      setPlaying(true);
+    };
+    const handlePause = () => setPlaying(false);
+
+    video.addEventListener('ended', handleEnded);
+    video.addEventListener('error', handleError);
+    video.addEventListener('play', handlePlay);
+    video.addEventListener('pause', handlePause);
+
+    return () => {
+      video.removeEventListener('ended', handleEnded);
+      video.removeEventListener('error', handleError);
+      video.removeEventListener('play', handlePlay);
+      video.removeEventListener('pause', handlePause);
+    };
+  }, [videos.length, goNext, loop, replay, study, activeSlot]);
+
+  useEffect(() => {
+    if (!notice) return;
+    const timer = setTimeout(() => setNotice(null), NOTICE_DURATION_MS);
+    return () => clearTimeout(timer);
+  }, [notice]);
+
+  // load() resets playbackRate to the default, so set both
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.defaultPlaybackRate = rate;
+    video.playbackRate = rate;
+  }, [rate, videos.length, activeSlot]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.volume = volume;
+    video.muted = muted;
+  }, [volume, muted, videos.length, activeSlot]);
+
+  // The same WebVTT the subtitles API serves, built from data we already have
+  useEffect(() => {
+    const subtitle = subtitles[currentIndex];
+    if (!subtitle) {
+      setCaptionsUrl(null);
+      return;
+    }
+
+    const url = URL.createObjectURL(new Blob([toVtt(subtitle, { wordCues: true })], { type: 'text/vtt' }));
+    setCaptionsUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [currentIndex, subtitles]);
+
+  // A track left in "hidden" mode still exposes its cues to assistive tech
+  useEffect(() => {
+    const track = trackRef.current?.track;
+    if (track) {
+      // Study mode keeps the line hidden until it's revealed
+      track.mode = nativeCaptions && !study ? 'showing' : 'hidden';
+    }
+  }, [nativeCaptions, study, captionsUrl, activeSlot]);
+
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || videos.length === 0) return;
+
+    if (currentIndex >= videos.length) {
+      // Waiting on the next page; loop back if no more pages are coming
+      if (nextCursor === null) {
+        setCurrentIndex(0);
+      }
+      return;
+    }
+
+    // Appending a page must not restart the clip that is already playing
+    const url = clipSource(currentIndex);
+    const loaded = loadedClipRef.current;
+    if (loaded && loaded.index === currentIndex && loaded.url === url) return;
+
+    // Swap in the standby element if it has this clip buffered. The refs
+    // trade places on the next render, and this effect runs again to play it
+    const standby = standbyRef.current;
+    const preloaded = preloadedRef.current;
+    if (standby && !standby.error && preloaded?.index === currentIndex && preloaded.url === url) {
+      preloadedRef.current = null;
+      video.pause();
+      setActiveSlot((slot) => 1 - slot);
+      return;
+    }
+
+    loadedClipRef.current = { index: currentIndex, url };
+    if (video.getAttribute('src') !== url) {
+      video.src = url;
+      video.load();
+    }
+    // Before metadata arrives this sets where playback will start
+    const span = spanRef.current;
+    const timeMs = video.currentTime * 1000;
+    if (span && (timeMs < span.start || timeMs > span.end)) {
+      video.currentTime = span.start / 1000;
+    }
+
+    if (!startedRef.current) return;
+    video.play().catch((err) => {
+      console.error('Error playing video:', err);
+    });
+  }, [currentIndex, videos, nextCursor, clipSource, activeSlot]);
+
+  // Buffer the clip after this one in the standby element
+  useEffect(() => {
+    const standby = standbyRef.current;
+    // Wait until the current clip is in place; mid-swap the standby element is the one about to play
+    if (!standby || loadedClipRef.current?.index !== currentIndex) return;
+
+    const nextIndex = currentIndex + 1 < videos.length ? currentIndex + 1 : nextCursor === null ? 0 : null;
+    if (nextIndex === null || nextIndex === currentIndex) return;
+
+    const url = clipSource(nextIndex);
+    const words = subtitles[nextIndex]?.words;
+    const nextSpan = tight && words ? getPhraseSpan(words, padding) : null;
+    preloadedRef.current = { index: nextIndex, url };
+    if (standby.getAttribute('src') !== url) {
+      standby.src = url;
+      standby.load();
+    }
+    standby.currentTime = (nextSpan?.start ?? 0) / 1000;
+  }, [currentIndex, videos.length, nextCursor, clipSource, subtitles, tight, padding, activeSlot]);
+
+  // Turning tight mode on or changing the padding jumps into the new span.
+  // The effects that hold on to the element rerun when the slots swap.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !span) return;
+    const timeMs = video.currentTime * 1000;
+    if (timeMs < span.start || timeMs > span.end) {
+      video.currentTime = span.start / 1000;
+    }
+  }, [span, activeSlot]);
+
+  // timeupdate fires only every ~250ms, too coarse to stop right after the
+  // phrase, so watch for the end of the span every frame while playing
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video || !span || !playing) return;
+
+    let frame = requestAnimationFrame(function check() {
+      if (video.currentTime * 1000 >= span.end) {
+        if (loop) {
+          video.currentTime = span.start / 1000;
+        } else if (study) {
+          // Stop at the end of the phrase, ready to hear it again
+          video.pause();
+          video.currentTime = span.start / 1000;
+          return;
+        } else {
+          goNext();
+          return;
+        }
+      }
+      frame = requestAnimationFrame(check);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [span, playing, loop, study, goNext, activeSlot]);
+
+  useEffect(() => {
+    const handleFullscreenChange = () => setFullscreen(getFullscreenElement() !== null);
+
+    document.addEventListener('fullscreenchange', handleFullscreenChange);
+    document.addEventListener('webkitfullscreenchange', handleFullscreenChange);
+    return () => {
+      document.removeEventListener('fullscreenchange', handleFullscreenChange);
+      document.removeEventListener('webkitfullscreenchange', handleFullscreenChange);
+      // Leaving the player also leaves fullscreen
+      if (getFullscreenElement()) {
+        exitFullscreen().catch(() => {});
+      }
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.metaKey || event.altKey || isEditableTarget(event.target)) return;
+
+      let handled = true;
+      switch (event.key) {
+        case ' ':
+        case 'k':
+        case 'K':
+          togglePlay();
+          break;
+        case 'ArrowLeft':
+          goPrevious();
+          break;
+        case 'ArrowRight':
+          goNext();
+          break;
+        case 'ArrowUp':
+          changeVolume(volume + VOLUME_STEP);
+          break;
+        case 'ArrowDown':
+          changeVolume(volume - VOLUME_STEP);
+          break;
+        case 'r':
+        case 'R':
+          replay();
+          break;
+        case 'l':
+        case 'L':
+          setLoop((value) => !value);
+          break;
+        case 'f':
+        case 'F':
+          toggleFullscreen();
+          break;
+        case 'm':
+        case 'M':
+          setMuted((value) => !value);
+          break;
+        case 't':
+        case 'T':
+          onTightChange(!tight, padding);
+          break;
+        case 'c':
+        case 'C':
+          setNativeCaptions((value) => !value);
+          break;
+        case 's':
+        case 'S':
+          onToggleSave?.(currentIndex);
+          break;
+        case 'd':
+        case 'D':
+          setStudy((value) => !value);
+          break;
+        case 'Escape':
+          // Escape exits fullscreen natively; only close once we're out of it
+          if (onClose && !getFullscreenElement()) {
+            onClose();
+          }
+          break;
+        default:
+          handled = false;
+      }
+
+      if (handled) {
+        // Keeps space from also clicking a focused button and arrows from scrolling
+        event.preventDefault();
+        showControls();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [togglePlay, goPrevious, goNext, replay, toggleFullscreen, changeVolume, volume, showControls, onClose, onTightChange, tight, padding, onToggleSave, currentIndex]);
+
+  if (videos.length === 0) {
+    return (
+      <div className={`fixed inset-0 flex items-center justify-center ${theme === 'light' ? 'bg-white text-black' : 'bg-black text-white'}`}>
+        <div>No videos available</div>
+      </div>
+    );
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      onMouseMove={showControls}
+      className={`fixed inset-0 ${theme === 'light' ? 'bg-white' : 'bg-black'} flex items-center justify-center ${controlsVisible || !playing ? '' : 'cursor-none'}`}
+    >
+      {[0, 1].map((slot) => (slot === activeSlot ? (
+        <video
+          key={slot}
+          ref={videoRef}
+          onClick={togglePlay}
+          className="absolute inset-0 w-full h-full object-contain"
+          playsInline
+          preload="auto"
+          // Tight mode loops the span itself
+          loop={loop && !span}
+        >
+          {captionsUrl && (
+            <track
+              ref={trackRef}
+              kind="captions"
+              src={captionsUrl}
+              srcLang={clipLanguage}
+              label={getLanguageName(clipLanguage)}
+            />
+          )}
+        </video>
+      ) : (
+        <video
+          key={slot}
+          ref={standbyRef}
+          className="absolute inset-0 w-full h-full object-contain invisible"
+          playsInline
+          preload="auto"
+          muted
+        />
+      )))}
+      {notice && (
+        <div role="status" className="absolute top-16 left-1/2 -translate-x-1/2 px-3 py-1 rounded bg-black/80 text-white text-sm">
+          {notice}
+        </div>
+      )}
+      <div className={`transition-opacity ${controlsVisible || !playing ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+        {onClose ? (
+          <button
+            type="button"
+            onClick={onClose}
+            aria-label="Back to results"
+            className="absolute top-4 left-4 px-3 py-1 rounded bg-black/60 hover:bg-black/80 text-white text-sm"
+          >
+            ← Results
+          </button>
+        ) : homeHref && (
+          <a
+            href={homeHref}
+            target="_blank"
+            rel="noopener"
+            className="absolute top-4 left-4 px-3 py-1 rounded bg-black/60 hover:bg-black/80 text-white text-sm"
+          >
+            Phrase to Clip ↗
+          </a>
+        )}
+        {section && (
+          <div className="absolute top-4 left-1/2 -translate-x-1/2 max-w-md px-3 py-1 rounded bg-black/60 text-white text-sm truncate">
+            <span className="text-yellow-400">“{section.title}”</span>
+            <span className="ml-2 text-gray-400">{sectionIndex + 1} / {sections.length}</span>
+          </div>
+        )}
+        {subtitles[currentIndex]?.movie && (
+          <div className="absolute top-4 right-4 max-w-sm px-3 py-1 rounded bg-black/60 text-gray-200 text-sm truncate">
+            {describeMovie(subtitles[currentIndex].movie)}
+          </div>
+        )}
+        <div className="absolute bottom-4 left-1/2 -translate-x-1/2">
+          <PlayerControls
+            playing={playing}
+            loop={loop}
+            tight={tight}
+            padding={padding}
+            rate={rate}
+            volume={volume}
+            muted={muted}
+            fullscreen={fullscreen}
+            nativeCaptions={nativeCaptions}
+            study={study}
+            saved={onToggleSave ? favorites?.has(clipKey(videos[currentIndex], subtitles[currentIndex])) ?? false : null}
+            captionsUrl={captionsUrl}
+            captionsFilename={`clip-${currentIndex + 1}.vtt`}
+            position={Math.min(currentIndex, videos.length - 1) + 1}
+            total={videos.length}
+            hasMore={nextCursor !== null}
+            onTogglePlay={togglePlay}
+            onPrevious={goPrevious}
+            onNext={goNext}
+            onReplay={replay}
+            onToggleLoop={() => setLoop((value) => !value)}
+            onTightChange={onTightChange}
+            onRateChange={(value) => setRate(PLAYBACK_RATES.includes(value) ? value : 1)}
+            onVolumeChange={changeVolume}
+            onToggleMute={() => setMuted((value) => !value)}
+            onToggleFullscreen={toggleFullscreen}
+            onToggleCaptions={() => setNativeCaptions((value) => !value)}
+            onToggleStudy={() => setStudy((value) => !value)}
+            onToggleSave={() => onToggleSave?.(currentIndex)}
+          />
+        </div>
+      </div>
+      {study && subtitles[currentIndex] ? (
+        <StudyPanel
+          // Each clip starts hidden, with an empty answer
+          key={currentIndex}
+          subtitle={subtitles[currentIndex]}
+          language={clipLanguage}
+          video={videos[currentIndex]}
+          videoRef={videoRef}
+          slot={activeSlot}
+          onSeek={seekTo}
+        />
+      ) : !nativeCaptions && subtitles[currentIndex] && (
+        <SubtitleOverlay
+          // Fresh state per clip, so no highlight carries over
+          key={currentIndex}
+          subtitle={subtitles[currentIndex]}
+          videoRef={videoRef}
+          slot={activeSlot}
+          onSeek={seekTo}
+        />
+      )}
+    </div>
+  );
+}
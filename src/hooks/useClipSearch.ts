@@ -0,0 +1,178 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { ApiErrorBody, ApiErrorCode } from '@/lib/api-error';
+import type { Subtitle } from '@/lib/clip';
+import type { PhraseMatch } from '@/lib/phrase-variants';
+
+export const PAGE_SIZE = 5;
+// Source filters can leave whole pages empty; look this far ahead for a match
+const MAX_EMPTY_PAGES = 5;
+
+// Optional /api/videos parameters that narrow the results
+export interface ClipSearchFilters {
+  filter?: string | null;
+  exclude?: string | null;
+}
+
+export interface SearchError {
+  // Missing for client-side and network failures
+  code?: ApiErrorCode;
+  message: string;
+  retryAfter?: number;
+}
+
+interface VideosResponse {
+  videos?: string[];
+  subtitles?: Subtitle[];
+  nextCursor?: string | null;
+  match?: PhraseMatch;
+}
+
+export interface ClipSearch {
+  videos: string[];
+  subtitles: Subtitle[];
+  loading: boolean;
+  error: SearchError | null;
+  // Null once every page has been fetched
+  nextCursor: string | null;
+  // Set when nothing matched the phrase as typed and these are results for a looser one
+  match?: PhraseMatch | null;
+  loadingMore: boolean;
+  loadMore: () => void;
+  retry: () => void;
+}
+
+function videosUrl(phrase: string, language: string, filters: ClipSearchFilters, cursor?: string | null): string {
+  const params = new URLSearchParams({ phrase, language, limit: String(PAGE_SIZE) });
+  if (filters.filter) {
+    params.set('filter', filters.filter);
+  }
+  if (filters.exclude) {
+    params.set('exclude', filters.exclude);
+  }
+  if (cursor) {
+    params.set('cursor', cursor);
+  }
+  return `/api/videos?${params}`;
+}
+
+// Fetches clips for a phrase page by page. Shared by the results grid and the
+// player so switching between them doesn't refetch.
+export function useClipSearch(phrase: string | null, language: string, { filter = null, exclude = null }: ClipSearchFilters = {}): ClipSearch {
+  const [videos, setVideos] = useState<string[]>([]);
+  const [subtitles, setSubtitles] = useState<Subtitle[]>([]);
+  const [loading, setLoading] = useState(phrase !== null);
+  const [error, setError] = useState<SearchError | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [match, setMatch] = useState<PhraseMatch | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  // Bumped by retry() to re-run the initial fetch
+  const [reloadKey, setReloadKey] = useState(0);
+  const loadingMoreRef = useRef(false);
+  // Identifies the current search so late pages of a previous one are dropped
+  const searchIdRef = useRef(0);
+
+  useEffect(() => {
+    searchIdRef.current++;
+    setVideos([]);
+    setSubtitles([]);
+    setNextCursor(null);
+    setMatch(null);
+    setError(null);
+    if (!phrase) {
+      setLoading(false);
+      return;
+    }
+
+    // Ignore responses for a search the user has already moved on from
+    let cancelled = false;
+
+    const fetchVideos = async () => {
+      try {
+        setLoading(true);
+        let data: VideosResponse | null = null;
+        let cursor: string | null = null;
+        for (let page = 0; page < MAX_EMPTY_PAGES; page++) {
+          const response = await fetch(videosUrl(phrase, language, { filter, exclude }, cursor));
+
+          if (!response.ok) {
+            const errorData = await response.json().catch(() => null) as Partial<ApiErrorBody> | null;
+            if (cancelled) return;
+            setError({
+              code: errorData?.code,
+              message: errorData?.error || 'Failed to fetch videos',
+              retryAfter: errorData?.retryAfter,
+            });
+            return;
+          }
+
+          data = await response.json() as VideosResponse | null;
+          cursor = data?.nextCursor ?? null;
+          if (cancelled || (data?.videos && data.videos.length > 0) || cursor === null) break;
+        }
+
+        if (cancelled) return;
+        if (data?.videos && data.videos.length > 0) {
+          setVideos(data.videos);
+          setSubtitles(data.subtitles || []);
+          setNextCursor(data.nextCursor ?? null);
+          setMatch(data.match ?? null);
+        } else {
+          setError({ code: 'NO_RESULTS', message: 'No videos found for this phrase' });
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setError({ message: err instanceof Error ? err.message : 'An error occurred' });
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchVideos();
+    return () => {
+      cancelled = true;
+    };
+  }, [phrase, language, filter, exclude, reloadKey]);
+
+  const loadMore = useCallback(() => {
+    if (!phrase || nextCursor === null || loadingMoreRef.current) return;
+
+    const searchId = searchIdRef.current;
+
+    const fetchNextPage = async () => {
+      loadingMoreRef.current = true;
+      setLoadingMore(true);
+      try {
+        const response = await fetch(videosUrl(phrase, language, { filter, exclude }, nextCursor));
+
+        if (!response.ok) {
+          throw new Error(`Failed to fetch next page: ${response.status}`);
+        }
+
+        const data = await response.json() as VideosResponse | null;
+        if (searchId !== searchIdRef.current) return;
+        setVideos((prev) => [...prev, ...(data?.videos || [])]);
+        setSubtitles((prev) => [...prev, ...(data?.subtitles || [])]);
+        setNextCursor(data?.nextCursor ?? null);
+      } catch (err) {
+        // Stop paging; callers fall back to what we already have
+        console.error('Error fetching next page:', err);
+        if (searchId === searchIdRef.current) {
+          setNextCursor(null);
+        }
+      } finally {
+        loadingMoreRef.current = false;
+        setLoadingMore(false);
+      }
+    };
+
+    fetchNextPage();
+  }, [phrase, language, filter, exclude, nextCursor]);
+
+  const retry = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return { videos, subtitles, loading, error, nextCursor, match, loadingMore, loadMore, retry };
+}
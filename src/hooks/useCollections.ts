@@ -0,0 +1,158 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { SearchError } from '@/hooks/useClipSearch';
+import type { ApiErrorBody } from '@/lib/api-error';
+import { clipKey } from '@/lib/clip';
+import { FAVORITES_ID, type ClipToSave, type Collection, type CollectionsDocument, type SavedClip } from '@/lib/saved-clips';
+
+export interface Collections {
+  collections: Collection[];
+  loading: boolean;
+  error: SearchError | null;
+  // Keys (see `clipKey`) of the clips in favorites, for the player's save toggle
+  favorites: ReadonlySet<string>;
+  toggleFavorite: (clip: ClipToSave) => Promise<void>;
+  saveClip: (collectionId: string, clip: ClipToSave) => Promise<void>;
+  removeClip: (collectionId: string, clipId: string) => Promise<void>;
+  createCollection: (name: string) => Promise<void>;
+  deleteCollection: (collectionId: string) => Promise<void>;
+  // Returns how many clips were added
+  importFile: (file: File, replace: boolean) => Promise<number>;
+  retry: () => void;
+}
+
+async function request<T>(url: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(url, {
+    ...init,
+    headers: init?.body ? { 'Content-Type': 'application/json' } : undefined,
+  });
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null) as Partial<ApiErrorBody> | null;
+    throw new Error(errorData?.error || `Request failed: ${response.status}`);
+  }
+  return (response.status === 204 ? null : await response.json()) as T;
+}
+
+function collectionUrl(collectionId: string): string {
+  return `/api/collections/${encodeURIComponent(collectionId)}`;
+}
+
+// The visitor's saved clips. The server identifies them by an anonymous id
+// cookie, set on the first request. Every change is sent straight away and
+// applied locally once the server has accepted it.
+export function useCollections(): Collections {
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<SearchError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    const fetchCollections = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch('/api/collections');
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null) as Partial<ApiErrorBody> | null;
+          if (cancelled) return;
+          setError({
+            code: errorData?.code,
+            message: errorData?.error || 'Failed to load saved clips',
+            retryAfter: errorData?.retryAfter,
+          });
+          return;
+        }
+
+        const data = await response.json() as CollectionsDocument;
+        if (!cancelled) {
+          setCollections(data.collections);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setError({ message: err instanceof Error ? err.message : 'An error occurred' });
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchCollections();
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
+
+  const updateCollection = (collectionId: string, update: (collection: Collection) => Collection) => {
+    setCollections((prev) => prev.map((collection) => (collection.id === collectionId ? update(collection) : collection)));
+  };
+
+  const saveClip = useCallback(async (collectionId: string, clip: ClipToSave) => {
+    const saved = await request<SavedClip>(`${collectionUrl(collectionId)}/clips`, { method: 'POST', body: JSON.stringify(clip) });
+    updateCollection(collectionId, (collection) => (
+      collection.clips.some((entry) => entry.id === saved.id) ? collection : { ...collection, clips: [...collection.clips, saved] }
+    ));
+  }, []);
+
+  const removeClip = useCallback(async (collectionId: string, clipId: string) => {
+    await request<null>(`${collectionUrl(collectionId)}/clips/${encodeURIComponent(clipId)}`, { method: 'DELETE' });
+    updateCollection(collectionId, (collection) => ({
+      ...collection,
+      clips: collection.clips.filter((entry) => entry.id !== clipId),
+    }));
+  }, []);
+
+  const favoritesCollection = collections.find((collection) => collection.id === FAVORITES_ID);
+  const favorites = useMemo(
+    () => new Set(favoritesCollection?.clips.map((clip) => clipKey(clip.video, clip.subtitle)) ?? []),
+    [favoritesCollection]
+  );
+
+  const toggleFavorite = useCallback(async (clip: ClipToSave) => {
+    const key = clipKey(clip.video, clip.subtitle);
+    const existing = favoritesCollection?.clips.find((entry) => clipKey(entry.video, entry.subtitle) === key);
+    if (existing) {
+      await removeClip(FAVORITES_ID, existing.id);
+    } else {
+      await saveClip(FAVORITES_ID, clip);
+    }
+  }, [favoritesCollection, removeClip, saveClip]);
+
+  const createCollection = useCallback(async (name: string) => {
+    const collection = await request<Collection>('/api/collections', { method: 'POST', body: JSON.stringify({ name }) });
+    setCollections((prev) => [...prev, collection]);
+  }, []);
+
+  const deleteCollection = useCallback(async (collectionId: string) => {
+    await request<null>(collectionUrl(collectionId), { method: 'DELETE' });
+    setCollections((prev) => prev.filter((collection) => collection.id !== collectionId));
+  }, []);
+
+  const importFile = useCallback(async (file: File, replace: boolean) => {
+    const data = await request<CollectionsDocument & { added: number }>(
+      `/api/collections/import${replace ? '?replace=1' : ''}`,
+      { method: 'POST', body: await file.text() }
+    );
+    setCollections(data.collections);
+    return data.added;
+  }, []);
+
+  const retry = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return {
+    collections,
+    loading,
+    error,
+    favorites,
+    toggleFavorite,
+    saveClip,
+    removeClip,
+    createCollection,
+    deleteCollection,
+    importFile,
+    retry,
+  };
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import type { PlayerSection } from '@/components/VideoPlayer';
+import type { ClipSearch, SearchError } from '@/hooks/useClipSearch';
+import type { ApiErrorBody } from '@/lib/api-error';
+import type { Subtitle } from '@/lib/clip';
+import type { Playlist } from '@/lib/playlists';
+
+export interface PlaylistView {
+  playlist: Playlist | null;
+  // Every section's clips back to back, in the shape the player and grid take
+  search: ClipSearch;
+  sections: PlayerSection[];
+}
+
+function noop() {}
+
+// Loads a saved playlist. Playlists are resolved when they're created, so
+// this is a single request and there are never more pages to fetch.
+export function usePlaylist(id: string): PlaylistView {
+  const [playlist, setPlaylist] = useState<Playlist | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<SearchError | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+
+    const fetchPlaylist = async () => {
+      try {
+        setLoading(true);
+        const response = await fetch(`/api/playlists/${encodeURIComponent(id)}`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null) as Partial<ApiErrorBody> | null;
+          if (cancelled) return;
+          setError({
+            code: errorData?.code,
+            message: errorData?.error || 'Failed to load playlist',
+            retryAfter: errorData?.retryAfter,
+          });
+          return;
+        }
+
+        const data = await response.json() as Playlist;
+        if (!cancelled) {
+          setPlaylist(data);
+        }
+      } catch (err) {
+        if (cancelled) return;
+        setError({ message: err instanceof Error ? err.message : 'An error occurred' });
+      } finally {
+        if (!cancelled) {
+          setLoading(false);
+        }
+      }
+    };
+
+    fetchPlaylist();
+    return () => {
+      cancelled = true;
+    };
+  }, [id, reloadKey]);
+
+  const retry = useCallback(() => setReloadKey((key) => key + 1), []);
+
+  return useMemo(() => {
+    const sections: PlayerSection[] = [];
+    const videos: string[] = [];
+    const subtitles: Subtitle[] = [];
+    // Empty sections have nothing to play, so they get no header either
+    for (const section of playlist?.sections ?? []) {
+      if (section.videos.length === 0) continue;
+      sections.push({ title: section.phrase, language: section.language, startIndex: videos.length });
+      videos.push(...section.videos);
+      subtitles.push(...section.subtitles);
+    }
+
+    return {
+      playlist,
+      search: { videos, subtitles, loading, error, nextCursor: null, loadingMore: false, loadMore: noop, retry },
+      sections,
+    };
+  }, [playlist, loading, error, retry]);
+}
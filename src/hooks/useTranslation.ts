@@ -0,0 +1,93 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { ApiErrorBody } from '@/lib/api-error';
+
+export interface Translation {
+  translation: string | null;
+  loading: boolean;
+  error: string | null;
+}
+
+// Lines come back around when clips loop or are reviewed, so keep answers
+// for the lifetime of the page
+const translations = new Map<string, string>();
+// Asked once per page; translations are off unless the server says otherwise
+let availability: Promise<boolean> | null = null;
+
+function fetchAvailability(): Promise<boolean> {
+  availability ??= fetch('/api/translate/status')
+    .then((response) => (response.ok ? response.json() as Promise<{ enabled: boolean }> : { enabled: false }))
+    .then((data) => data.enabled === true)
+    .catch(() => false);
+  return availability;
+}
+
+// Whether the server has a translation service configured; false until known
+export function useTranslationAvailable(): boolean {
+  const [available, setAvailable] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchAvailability().then((enabled) => {
+      if (!cancelled) {
+        setAvailable(enabled);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return available;
+}
+
+// Translates a subtitle line via /api/translate. Does nothing while `to` is
+// null or the same as `from`.
+export function useTranslation(text: string, from: string, to: string | null): Translation {
+  const key = to && to !== from ? `${from}:${to}:${text}` : null;
+  const [state, setState] = useState<Translation>({ translation: null, loading: false, error: null });
+
+  useEffect(() => {
+    if (!key || !to) {
+      setState({ translation: null, loading: false, error: null });
+      return;
+    }
+    const cached = translations.get(key);
+    if (cached !== undefined) {
+      setState({ translation: cached, loading: false, error: null });
+      return;
+    }
+
+    let cancelled = false;
+    setState({ translation: null, loading: true, error: null });
+
+    const fetchTranslation = async () => {
+      try {
+        const params = new URLSearchParams({ text, from, to });
+        const response = await fetch(`/api/translate?${params}`);
+        if (!response.ok) {
+          const errorData = await response.json().catch(() => null) as Partial<ApiErrorBody> | null;
+          throw new Error(errorData?.error || 'Translation failed');
+        }
+
+        const data = await response.json() as { translation: string };
+        translations.set(key, data.translation);
+        if (!cancelled) {
+          setState({ translation: data.translation, loading: false, error: null });
+        }
+      } catch (err) {
+        if (!cancelled) {
+          setState({ translation: null, loading: false, error: err instanceof Error ? err.message : 'Translation failed' });
+        }
+      }
+    };
+
+    fetchTranslation();
+    return () => {
+      cancelled = true;
+    };
+  }, [key, text, from, to]);
+
+  return state;
+}
@@ -0,0 +1,121 @@
+import { NextResponse } from 'next/server';
+import { ConfigError } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { CircuitOpenError, UpstreamAuthError, UpstreamHttpError, UpstreamTimeoutError } from '@/lib/upstream-fetch';
+import { UpstreamValidationError } from '@/lib/validation';
+
+// Every error response from the API routes has the shape
+// `{ code, error, retryAfter?, details? }`, where `error` is a human-readable
+// message safe to show to users. Upstream response bodies never appear here.
+
+export const API_ERROR_STATUS = {
+  INVALID_PARAMS: 400,
+  INVALID_API_KEY: 401,
+  NO_RESULTS: 404,
+  RATE_LIMITED: 429,
+  SERVER_MISCONFIGURED: 500,
+  INTERNAL_ERROR: 500,
+  UPSTREAM_AUTH_FAILED: 502,
+  UPSTREAM_BAD_RESPONSE: 502,
+  UPSTREAM_UNAVAILABLE: 503,
+  UPSTREAM_TIMEOUT: 504,
+} as const;
+
+export type ApiErrorCode = keyof typeof API_ERROR_STATUS;
+
+export interface ApiErrorBody {
+  code: ApiErrorCode;
+  error: string;
+  // Seconds the client should wait before retrying
+  retryAfter?: number;
+  details?: unknown;
+}
+
+export class ApiError extends Error {
+  readonly code: ApiErrorCode;
+  readonly retryAfterSeconds?: number;
+  readonly details?: unknown;
+  // Extra response headers, e.g. RateLimit-* on a 429
+  readonly headers?: Record<string, string>;
+
+  constructor(
+    code: ApiErrorCode,
+    message: string,
+    options: { retryAfterSeconds?: number; details?: unknown; headers?: Record<string, string> } = {}
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.code = code;
+    this.retryAfterSeconds = options.retryAfterSeconds;
+    this.details = options.details;
+    this.headers = options.headers;
+  }
+
+  get status(): number {
+    return API_ERROR_STATUS[this.code];
+  }
+}
+
+// Maps anything thrown while handling a request onto the taxonomy
+export function toApiError(error: unknown): ApiError {
+  if (error instanceof ApiError) return error;
+
+  if (error instanceof ConfigError) {
+    return new ApiError('SERVER_MISCONFIGURED', error.message, { details: { settings: error.settings } });
+  }
+  if (error instanceof CircuitOpenError) {
+    return new ApiError('UPSTREAM_UNAVAILABLE', 'The clip source is temporarily unavailable', {
+      retryAfterSeconds: error.retryAfterSeconds,
+    });
+  }
+  if (error instanceof UpstreamTimeoutError) {
+    return new ApiError('UPSTREAM_TIMEOUT', 'The clip source took too long to respond');
+  }
+  if (error instanceof UpstreamAuthError) {
+    return new ApiError('UPSTREAM_AUTH_FAILED', 'The clip source rejected our session');
+  }
+  if (error instanceof UpstreamHttpError) {
+    return error.status >= 500
+      ? new ApiError('UPSTREAM_UNAVAILABLE', 'The clip source is having problems')
+      : new ApiError('UPSTREAM_BAD_RESPONSE', `The clip source returned an unexpected ${error.status} response`);
+  }
+  if (error instanceof UpstreamValidationError) {
+    return new ApiError('UPSTREAM_BAD_RESPONSE', 'The clip source returned data we could not understand', {
+      details: { issues: error.issues },
+    });
+  }
+
+  return new ApiError('INTERNAL_ERROR', 'Something went wrong');
+}
+
+export function toErrorBody(error: ApiError): ApiErrorBody {
+  return {
+    code: error.code,
+    error: error.message,
+    ...(error.retryAfterSeconds !== undefined && { retryAfter: error.retryAfterSeconds }),
+    ...(error.details !== undefined && { details: error.details }),
+  };
+}
+
+export function errorResponse(error: ApiError, headers: Record<string, string> = {}): NextResponse {
+  return NextResponse.json(toErrorBody(error), {
+    status: error.status,
+    headers: {
+      ...(error.retryAfterSeconds !== undefined && { 'Retry-After': String(error.retryAfterSeconds) }),
+      ...error.headers,
+      ...headers,
+    },
+  });
+}
+
+// The catch block of every route: server-side failures are logged as errors
+// with `message`, client mistakes only as a rejected request
+export function handleRouteError(error: unknown, message: string): NextResponse {
+  const apiError = toApiError(error);
+  if (apiError.status >= 500) {
+    logger.error(message, { code: apiError.code, error });
+  } else {
+    logger.info('Request rejected', { code: apiError.code, message: apiError.message });
+  }
+  return errorResponse(apiError);
+}
@@ -0,0 +1,122 @@
+import type { Subtitle } from '@/lib/clip';
+
+// Caption files for a single clip. Shared by the subtitles API and the
+// player's <track>, so both produce byte-identical files. Cue times are
+// relative to the start of the clip's video, like the word timings.
+
+export type CaptionFormat = 'srt' | 'vtt' | 'json';
+
+export const CAPTION_FORMATS: CaptionFormat[] = ['srt', 'vtt', 'json'];
+
+export const CAPTION_CONTENT_TYPES: Record<CaptionFormat, string> = {
+  srt: 'application/x-subrip; charset=utf-8',
+  vtt: 'text/vtt; charset=utf-8',
+  json: 'application/json',
+};
+
+export interface CaptionCue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface CaptionOptions {
+  // Adds a WebVTT timestamp tag before each word so players can fill the
+  // caption word by word. Ignored for SRT, which has no equivalent.
+  wordCues?: boolean;
+}
+
+// A clip spans `start`..`end` of its source; its video starts at 0
+function clipDuration(subtitle: Subtitle): number {
+  const lastWordEnd = subtitle.words.reduce((max, word) => Math.max(max, word.end), 0);
+  return Math.max(subtitle.end - subtitle.start, lastWordEnd);
+}
+
+export function toCaptionCue(subtitle: Subtitle): CaptionCue {
+  const firstWordStart = subtitle.words.length > 0 ? subtitle.words[0].start : 0;
+  return {
+    start: Math.max(0, firstWordStart),
+    end: clipDuration(subtitle),
+    text: subtitle.text,
+  };
+}
+
+// `HH:MM:SS,mmm` for SRT and `HH:MM:SS.mmm` for WebVTT
+export function formatTimestamp(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const hours = Math.floor(total / 3_600_000);
+  const minutes = Math.floor(total / 60_000) % 60;
+  const seconds = Math.floor(total / 1000) % 60;
+  const millis = total % 1000;
+  const pad = (value: number, length: number = 2) => String(value).padStart(length, '0');
+  return `${pad(hours)}:${pad(minutes)}:${pad(seconds)}${separator}${pad(millis, 3)}`;
+}
+
+// Cue text can't contain markup characters or the cue timing arrow
+function escapeVtt(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;');
+}
+
+// SRT has no escaping, but a blank line would end the cue early
+function flattenLines(text: string): string {
+  return text.replace(/\s*\n\s*/g, ' ').trim();
+}
+
+export function toSrt(subtitle: Subtitle): string {
+  const cue = toCaptionCue(subtitle);
+  return [
+    '1',
+    `${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}`,
+    flattenLines(cue.text),
+    '',
+  ].join('\n');
+}
+
+// Words inside the cue get `<HH:MM:SS.mmm>` timestamp tags, and the searched
+// words are wrapped in `<c.searched>` so they can be styled with ::cue(.searched)
+function vttWordText(subtitle: Subtitle, cue: CaptionCue): string {
+  return subtitle.words
+    .map((word) => {
+      const text = escapeVtt(flattenLines(word.text));
+      const styled = word['searched?'] ? `<c.searched>${text}</c>` : `<c>${text}</c>`;
+      // A timestamp at or before the cue start is invalid
+      return word.start > cue.start && word.start < cue.end
+        ? `<${formatTimestamp(word.start, '.')}>${styled}`
+        : styled;
+    })
+    .join(' ');
+}
+
+export function toVtt(subtitle: Subtitle, { wordCues = false }: CaptionOptions = {}): string {
+  const cue = toCaptionCue(subtitle);
+  const text = wordCues && subtitle.words.length > 0
+    ? vttWordText(subtitle, cue)
+    : escapeVtt(flattenLines(cue.text));
+
+  return [
+    'WEBVTT',
+    '',
+    '1',
+    `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}`,
+    text,
+    '',
+  ].join('\n');
+}
+
+export function toCaptionJson(subtitle: Subtitle) {
+  return {
+    cues: [toCaptionCue(subtitle)],
+    words: subtitle.words.map(({ text, start, end, 'searched?': searched }) => ({ text, start, end, searched })),
+  };
+}
+
+export function formatCaptions(subtitle: Subtitle, format: CaptionFormat, options: CaptionOptions = {}): string {
+  switch (format) {
+    case 'srt': return toSrt(subtitle);
+    case 'vtt': return toVtt(subtitle, options);
+    case 'json': return JSON.stringify(toCaptionJson(subtitle));
+  }
+}
@@ -0,0 +1,146 @@
+import { ApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import type { ClipProvider } from '@/lib/providers';
+import { upstreamFetch } from '@/lib/upstream-fetch';
+
+// Streams clip videos through /api/clip/:id so the player gets same-origin
+// media (CORS-safe for canvas export) and an expired CDN link is replaced
+// with a fresh one instead of failing. Range requests pass straight through,
+// so seeking works without downloading the whole clip.
+
+interface ResolvedUrl {
+  url: string;
+  expiresAt: number;
+}
+
+const CLIP_CDN_UPSTREAM = 'clip-cdn';
+const CLIP_FETCH_TIMEOUT_MS = 10_000;
+// CDN links from a search stay valid for a while; past this, look them up again
+const RESOLVED_URL_TTL_MS = 30 * 60 * 1000;
+const MAX_RESOLVED_URLS = 1000;
+const VALID_CLIP_ID = /^[\w-]{1,128}$/;
+// Upstream statuses that mean the link itself has gone stale
+const EXPIRED_STATUSES = new Set([401, 403, 404, 410]);
+const FORWARDED_REQUEST_HEADERS = ['Range', 'If-Range', 'If-None-Match', 'If-Modified-Since'];
+const FORWARDED_RESPONSE_HEADERS = ['Content-Type', 'Content-Length', 'Content-Range', 'Accept-Ranges', 'ETag', 'Last-Modified'];
+
+// Per isolate, oldest first so the first entry is the one to evict
+const resolvedUrls = new Map<string, ResolvedUrl>();
+
+function cacheKey(provider: string, id: string): string {
+  return `${provider}:${id}`;
+}
+
+export function isValidClipId(id: string): boolean {
+  return VALID_CLIP_ID.test(id);
+}
+
+export function clipProxyPath(provider: string, id: string): string {
+  return `/api/clip/${encodeURIComponent(id)}?provider=${encodeURIComponent(provider)}`;
+}
+
+// Searches already know most clip URLs; remembering them spares the proxy a lookup
+export function rememberClipUrl(provider: string, id: string, url: string): void {
+  if (!url) return;
+  const key = cacheKey(provider, id);
+  resolvedUrls.delete(key);
+  resolvedUrls.set(key, { url, expiresAt: Date.now() + RESOLVED_URL_TTL_MS });
+  if (resolvedUrls.size > MAX_RESOLVED_URLS) {
+    resolvedUrls.delete(resolvedUrls.keys().next().value!);
+  }
+}
+
+// The provider and clip id behind a `clipProxyPath`, or null for anything else
+export function parseClipProxyPath(path: string): { provider: string; id: string } | null {
+  if (!URL.canParse(path, 'http://proxy')) return null;
+  const url = new URL(path, 'http://proxy');
+  const match = /^\/api\/clip\/([^/]+)$/.exec(url.pathname);
+  const provider = url.searchParams.get('provider');
+  if (!match || !provider) return null;
+  const id = decodeURIComponent(match[1]);
+  return isValidClipId(id) ? { provider, id } : null;
+}
+
+// A cached search response names each clip's URL next to its proxy path;
+// remembering those lets an isolate that never ran the search skip the
+// lookup. One that has expired since is looked up again when the CDN rejects it.
+export function rememberProxiedUrls(videos: string[], proxies: (string | undefined)[]): void {
+  videos.forEach((url, index) => {
+    const target = proxies[index] ? parseClipProxyPath(proxies[index]) : null;
+    if (target && !hasResolvedClipUrl(target.provider, target.id)) {
+      rememberClipUrl(target.provider, target.id, url);
+    }
+  });
+}
+
+// True when serving this clip won't need an upstream lookup
+export function hasResolvedClipUrl(provider: string, id: string): boolean {
+  const entry = resolvedUrls.get(cacheKey(provider, id));
+  return entry !== undefined && entry.expiresAt > Date.now();
+}
+
+async function resolveClipUrl(provider: ClipProvider, id: string, fresh: boolean): Promise<string> {
+  const key = cacheKey(provider.name, id);
+  const cached = resolvedUrls.get(key);
+  if (!fresh && cached && cached.expiresAt > Date.now()) {
+    return cached.url;
+  }
+
+  const session = await provider.getSession();
+  const url = await provider.resolveVideoUrl(id, session, { fresh });
+  if (!url) {
+    throw new ApiError('NO_RESULTS', `Clip not found: ${id}`);
+  }
+  rememberClipUrl(provider.name, id, url);
+  return url;
+}
+
+function fetchFromCdn(url: string, request: Request): Promise<Response> {
+  const headers = new Headers();
+  for (const name of FORWARDED_REQUEST_HEADERS) {
+    const value = request.headers.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  }
+
+  // Providers may hand back same-origin paths (the fixture clips do)
+  return upstreamFetch(new URL(url, request.url).toString(), { method: 'GET', headers }, {
+    upstream: CLIP_CDN_UPSTREAM,
+    timeoutMs: CLIP_FETCH_TIMEOUT_MS,
+    retries: 1,
+    stream: true,
+  });
+}
+
+export async function fetchClip(provider: ClipProvider, id: string, request: Request): Promise<Response> {
+  let upstream = await fetchFromCdn(await resolveClipUrl(provider, id, false), request);
+
+  if (EXPIRED_STATUSES.has(upstream.status)) {
+    logger.info('Clip URL rejected, resolving it again', { provider: provider.name, clipId: id, status: upstream.status });
+    await upstream.body?.cancel();
+    upstream = await fetchFromCdn(await resolveClipUrl(provider, id, true), request);
+  }
+
+  // 206 for ranges, 304 for revalidation, 416 for a range past the end
+  if (!upstream.ok && upstream.status !== 304 && upstream.status !== 416) {
+    await upstream.body?.cancel();
+    throw upstream.status >= 500
+      ? new ApiError('UPSTREAM_UNAVAILABLE', 'The clip source is having problems')
+      : new ApiError('UPSTREAM_BAD_RESPONSE', `The clip source returned an unexpected ${upstream.status} response`);
+  }
+
+  const headers = new Headers({
+    // The URL can change under us, but the bytes for a clip id don't
+    'Cache-Control': 'public, max-age=86400',
+    'Access-Control-Allow-Origin': '*',
+  });
+  for (const name of FORWARDED_RESPONSE_HEADERS) {
+    const value = upstream.headers.get(name);
+    if (value) {
+      headers.set(name, value);
+    }
+  }
+
+  return new Response(upstream.body, { status: upstream.status, headers });
+}
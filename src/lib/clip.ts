@@ -0,0 +1,112 @@
+// Shared clip types used by the API routes and the player.
+// Word/clip timings are in milliseconds.
+
+export interface Word {
+  text: string;
+  start: number;
+  end: number;
+  index: number;
+  score?: number;
+  // Set on the words that matched the searched phrase
+  'searched?': boolean;
+}
+
+// Where a clip comes from: a movie, or a show when `episode` is set
+export interface ClipMovie {
+  title: string;
+  year?: number;
+  // Like "S01E01"
+  episode?: string;
+  genres?: string[];
+  // Out of 10
+  rating?: number;
+  imdbId?: string;
+}
+
+export interface Clip {
+  id: string;
+  // Null when the upstream search didn't include a playable URL and it
+  // has to be resolved separately by the provider
+  url: string | null;
+  text: string;
+  start: number;
+  end: number;
+  words: Word[];
+  movie?: ClipMovie;
+}
+
+// A stretch of a clip's video, in milliseconds from its start
+export interface ClipSpan {
+  start: number;
+  end: number;
+}
+
+// The per-clip caption and source data returned alongside `videos` by
+// /api/videos. `tight` is only present when the request asked for tight mode.
+// `proxy` is the same-origin /api/clip path that streams the clip's video.
+export type Subtitle = Pick<Clip, 'text' | 'start' | 'end' | 'words' | 'movie'> & {
+  tight?: ClipSpan;
+  proxy?: string;
+};
+
+// Identifies a clip across searches. Video URLs expire and come back
+// different, but the proxy path is built from the provider and clip id.
+export function clipKey(video: string, subtitle: Pick<Subtitle, 'proxy'> | undefined): string {
+  return subtitle?.proxy ?? video;
+}
+
+export const DEFAULT_TIGHT_PADDING_MS = 250;
+export const MAX_TIGHT_PADDING_MS = 2000;
+
+// The span covering the searched words, widened by `padding` on each side.
+// Null when no word is flagged as searched, meaning the whole clip plays.
+export function getPhraseSpan(words: Word[], padding: number): ClipSpan | null {
+  const searched = words.filter((word) => word['searched?']);
+  if (searched.length === 0) return null;
+
+  return {
+    start: Math.max(0, Math.min(...searched.map((word) => word.start)) - padding),
+    end: Math.max(...searched.map((word) => word.end)) + padding,
+  };
+}
+
+// One-line caption like "Friends (1994) · S01E01 · Comedy · ★ 8.9"
+export function describeMovie(movie: ClipMovie): string {
+  return [
+    movie.year ? `${movie.title} (${movie.year})` : movie.title,
+    movie.episode,
+    movie.genres?.slice(0, 2).join(', '),
+    movie.rating !== undefined ? `★ ${movie.rating.toFixed(1)}` : undefined,
+  ].filter(Boolean).join(' · ');
+}
+
+// Index of the word being spoken at `timeMs`, or -1 between words. Words are
+// in speaking order, so this is a binary search for the last word that has
+// started.
+export function findActiveWordIndex(words: Word[], timeMs: number): number {
+  let low = 0;
+  let high = words.length - 1;
+  let candidate = -1;
+  while (low <= high) {
+    const mid = (low + high) >> 1;
+    if (words[mid].start <= timeMs) {
+      candidate = mid;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  return candidate >= 0 && timeMs <= words[candidate].end ? candidate : -1;
+}
+
+export function toSubtitle(clip: Clip, tightPadding: number | null = null): Subtitle {
+  const tight = tightPadding !== null ? getPhraseSpan(clip.words, tightPadding) : null;
+  return {
+    text: clip.text,
+    start: clip.start,
+    end: clip.end,
+    words: clip.words,
+    ...(clip.movie && { movie: clip.movie }),
+    ...(tight && { tight }),
+  };
+}
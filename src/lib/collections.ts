@@ -0,0 +1,351 @@
+import type { NextRequest, NextResponse } from 'next/server';
+import { ApiError } from '@/lib/api-error';
+import { clipKey, type ClipMovie, type Subtitle, type Word } from '@/lib/clip';
+import { ConfigError, type AppConfig } from '@/lib/config';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '@/lib/languages';
+import {
+  FAVORITES_ID,
+  type ClipToSave,
+  type Collection,
+  type CollectionsDocument,
+  type CollectionsExport,
+  type SavedClip,
+} from '@/lib/saved-clips';
+import {
+  describeType,
+  isRecord,
+  readOptionalNumber,
+  readString,
+  type ValidationIssue,
+} from '@/lib/validation';
+
+// Saved clips, grouped into named collections. There are no accounts: each
+// browser gets a random id in a long-lived cookie, and that id keys one KV
+// document holding all of its collections. Writes are read-modify-write, so
+// two tabs saving at the same instant can lose one save; that's acceptable
+// for a personal list.
+
+export interface CollectionsSession {
+  userId: string;
+  // True when the request had no valid id cookie and the response must set one
+  isNew: boolean;
+  store: KVNamespace;
+  document: CollectionsDocument;
+}
+
+export const USER_COOKIE = 'ptc_uid';
+
+const USER_TTL_SECONDS = 365 * 24 * 60 * 60;
+const MAX_COLLECTIONS = 50;
+const MAX_CLIPS_PER_COLLECTION = 500;
+const MAX_NAME_LENGTH = 100;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_WORDS_PER_SUBTITLE = 200;
+// KV values can be 25 MiB; stay well clear of that
+const MAX_DOCUMENT_BYTES = 5 * 1024 * 1024;
+export const MAX_IMPORT_BYTES = MAX_DOCUMENT_BYTES;
+const VALID_USER_ID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/;
+
+export function requireCollectionStore(config: AppConfig): KVNamespace {
+  if (!config.collectionStore) {
+    throw new ConfigError(
+      'Invalid configuration: COLLECTIONS_KV KV namespace binding is missing (create it with `npx wrangler kv namespace create COLLECTIONS_KV`)',
+      ['COLLECTIONS_KV']
+    );
+  }
+  return config.collectionStore;
+}
+
+function emptyDocument(): CollectionsDocument {
+  return {
+    collections: [{ id: FAVORITES_ID, name: 'Favorites', createdAt: new Date().toISOString(), clips: [] }],
+  };
+}
+
+export async function openCollections(request: NextRequest, config: AppConfig): Promise<CollectionsSession> {
+  const store = requireCollectionStore(config);
+  const cookie = request.cookies.get(USER_COOKIE)?.value;
+
+  if (!cookie || !VALID_USER_ID.test(cookie)) {
+    return { userId: crypto.randomUUID(), isNew: true, store, document: emptyDocument() };
+  }
+
+  const document = await store.get<CollectionsDocument>(`collections:${cookie}`, 'json');
+  return { userId: cookie, isNew: false, store, document: document ?? emptyDocument() };
+}
+
+// Every write pushes the expiry out again, so only abandoned ids age out
+export async function saveCollections(session: CollectionsSession): Promise<void> {
+  const value = JSON.stringify(session.document);
+  if (new TextEncoder().encode(value).length > MAX_DOCUMENT_BYTES) {
+    throw new ApiError('INVALID_PARAMS', 'Your saved clips have reached the storage limit; remove some first');
+  }
+  await session.store.put(`collections:${session.userId}`, value, {
+    expirationTtl: USER_TTL_SECONDS,
+  });
+}
+
+export function withUserCookie<T extends NextResponse>(response: T, session: CollectionsSession): T {
+  if (session.isNew) {
+    response.cookies.set(USER_COOKIE, session.userId, {
+      httpOnly: true,
+      secure: true,
+      sameSite: 'lax',
+      path: '/',
+      maxAge: USER_TTL_SECONDS,
+    });
+  }
+  return response;
+}
+
+export function findCollection(document: CollectionsDocument, id: string): Collection {
+  const collection = document.collections.find((entry) => entry.id === id);
+  if (!collection) {
+    throw new ApiError('NO_RESULTS', `Collection not found: ${id}`);
+  }
+  return collection;
+}
+
+export function parseCollectionName(value: unknown): string {
+  const name = typeof value === 'string' ? value.trim() : '';
+  if (!name || name.length > MAX_NAME_LENGTH) {
+    throw new ApiError('INVALID_PARAMS', `name must be a non-empty string of up to ${MAX_NAME_LENGTH} characters`);
+  }
+  return name;
+}
+
+export function createCollection(document: CollectionsDocument, name: string): Collection {
+  if (document.collections.length >= MAX_COLLECTIONS) {
+    throw new ApiError('INVALID_PARAMS', `You can have at most ${MAX_COLLECTIONS} collections`);
+  }
+
+  const collection: Collection = { id: crypto.randomUUID(), name, createdAt: new Date().toISOString(), clips: [] };
+  document.collections.push(collection);
+  return collection;
+}
+
+export function deleteCollection(document: CollectionsDocument, id: string): void {
+  if (id === FAVORITES_ID) {
+    throw new ApiError('INVALID_PARAMS', 'The favorites collection cannot be deleted');
+  }
+  findCollection(document, id);
+  document.collections = document.collections.filter((entry) => entry.id !== id);
+}
+
+function findSavedClip(collection: Collection, clip: ClipToSave): SavedClip | undefined {
+  const key = clipKey(clip.video, clip.subtitle);
+  return collection.clips.find((entry) => clipKey(entry.video, entry.subtitle) === key);
+}
+
+// Saving a clip that's already in the collection returns the existing entry.
+// Clips match by provider and clip id, since video URLs change between searches.
+export function addClip(collection: Collection, clip: ClipToSave): SavedClip {
+  const existing = findSavedClip(collection, clip);
+  if (existing) return existing;
+
+  if (collection.clips.length >= MAX_CLIPS_PER_COLLECTION) {
+    throw new ApiError('INVALID_PARAMS', `A collection holds at most ${MAX_CLIPS_PER_COLLECTION} clips`);
+  }
+
+  const saved: SavedClip = { ...clip, id: crypto.randomUUID(), savedAt: new Date().toISOString() };
+  collection.clips.push(saved);
+  return saved;
+}
+
+export function removeClip(collection: Collection, clipId: string): void {
+  if (!collection.clips.some((entry) => entry.id === clipId)) {
+    throw new ApiError('NO_RESULTS', `Clip not found: ${clipId}`);
+  }
+  collection.clips = collection.clips.filter((entry) => entry.id !== clipId);
+}
+
+// Saved clips come from clients, so only the fields the app reads are kept
+function parseWord(raw: unknown, path: string, issues: ValidationIssue[]): Word | null {
+  if (!isRecord(raw)) {
+    issues.push({ path, message: `Expected object, got ${describeType(raw)}` });
+    return null;
+  }
+
+  const text = readString(raw, 'text', path, issues);
+  const start = readOptionalNumber(raw, 'start', path, issues);
+  const end = readOptionalNumber(raw, 'end', path, issues);
+  if (text === undefined || start === undefined || end === undefined) return null;
+
+  return {
+    text,
+    start,
+    end,
+    index: readOptionalNumber(raw, 'index', path, issues) ?? 0,
+    'searched?': raw['searched?'] === true,
+  };
+}
+
+function parseMovie(raw: unknown, path: string, issues: ValidationIssue[]): ClipMovie | undefined {
+  if (!isRecord(raw)) return undefined;
+
+  const title = readString(raw, 'title', path, issues);
+  if (title === undefined) return undefined;
+
+  return {
+    title,
+    year: readOptionalNumber(raw, 'year', path, issues),
+    episode: typeof raw.episode === 'string' ? raw.episode : undefined,
+    genres: Array.isArray(raw.genres) ? raw.genres.filter((genre): genre is string => typeof genre === 'string') : undefined,
+    rating: readOptionalNumber(raw, 'rating', path, issues),
+    imdbId: typeof raw.imdbId === 'string' ? raw.imdbId : undefined,
+  };
+}
+
+function parseSubtitle(raw: unknown, path: string, issues: ValidationIssue[]): Subtitle | null {
+  if (!isRecord(raw)) {
+    issues.push({ path, message: `Expected object, got ${describeType(raw)}` });
+    return null;
+  }
+
+  const text = readString(raw, 'text', path, issues);
+  const start = readOptionalNumber(raw, 'start', path, issues) ?? 0;
+  const end = readOptionalNumber(raw, 'end', path, issues) ?? 0;
+  if (text === undefined) return null;
+  if (text.length > MAX_TEXT_LENGTH) {
+    issues.push({ path: `${path}.text`, message: `Expected at most ${MAX_TEXT_LENGTH} characters` });
+    return null;
+  }
+
+  if (Array.isArray(raw.words) && raw.words.length > MAX_WORDS_PER_SUBTITLE) {
+    issues.push({ path: `${path}.words`, message: `Expected at most ${MAX_WORDS_PER_SUBTITLE} words` });
+    return null;
+  }
+  const words = Array.isArray(raw.words)
+    ? raw.words.map((word, i) => parseWord(word, `${path}.words[${i}]`, issues)).filter((word): word is Word => word !== null)
+    : [];
+
+  return {
+    text,
+    start,
+    end,
+    words,
+    movie: parseMovie(raw.movie, `${path}.movie`, issues),
+    // Only ever a path on our own clip proxy
+    proxy: typeof raw.proxy === 'string' && raw.proxy.startsWith('/api/clip/') ? raw.proxy : undefined,
+  };
+}
+
+// An http(s) URL, or a path on this site like the fixture provider's clips
+function isVideoUrl(value: unknown): value is string {
+  if (typeof value !== 'string') return false;
+  if (value.startsWith('/') && !value.startsWith('//')) return true;
+  try {
+    const url = new URL(value);
+    return url.protocol === 'https:' || url.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+// Parses `{ phrase, language, video, subtitle }`, recording problems in `issues`
+export function parseClipInput(raw: unknown, path: string, issues: ValidationIssue[]): ClipToSave | null {
+  if (!isRecord(raw)) {
+    issues.push({ path, message: `Expected object, got ${describeType(raw)}` });
+    return null;
+  }
+
+  const phrase = typeof raw.phrase === 'string' ? raw.phrase.trim() : '';
+  const language = raw.language === undefined ? DEFAULT_LANGUAGE : raw.language;
+  if (!phrase || phrase.length > MAX_TEXT_LENGTH) {
+    issues.push({ path: `${path}.phrase`, message: 'Expected a non-empty string' });
+    return null;
+  }
+  if (typeof language !== 'string' || !isSupportedLanguage(language)) {
+    issues.push({ path: `${path}.language`, message: 'Expected a supported language code (see /api/languages)' });
+    return null;
+  }
+  if (!isVideoUrl(raw.video)) {
+    issues.push({ path: `${path}.video`, message: 'Expected an http(s) URL or a path on this site' });
+    return null;
+  }
+
+  const subtitle = parseSubtitle(raw.subtitle, `${path}.subtitle`, issues);
+  if (!subtitle) return null;
+
+  return { phrase, language, video: raw.video, subtitle };
+}
+
+export function toExport(document: CollectionsDocument): CollectionsExport {
+  return {
+    version: 1,
+    exportedAt: new Date().toISOString(),
+    collections: document.collections.map(({ name, clips }) => ({
+      name,
+      clips: clips.map((clip) => ({
+        phrase: clip.phrase,
+        language: clip.language,
+        video: clip.video,
+        subtitle: clip.subtitle,
+        savedAt: clip.savedAt,
+      })),
+    })),
+  };
+}
+
+// Merges an export into `document`: collections are matched by name, clips
+// already saved in a collection are skipped. With `replace`, everything
+// currently saved is dropped first. Returns how many clips were added.
+export function importCollections(document: CollectionsDocument, raw: unknown, replace: boolean): number {
+  if (!isRecord(raw) || raw.version !== 1 || !Array.isArray(raw.collections)) {
+    throw new ApiError('INVALID_PARAMS', 'Expected a collections export ({ version: 1, collections: [...] })');
+  }
+  if (raw.collections.length > MAX_COLLECTIONS) {
+    throw new ApiError('INVALID_PARAMS', `An import holds at most ${MAX_COLLECTIONS} collections`);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const incoming = raw.collections.map((entry, i) => {
+    const path = `collections[${i}]`;
+    if (!isRecord(entry) || !Array.isArray(entry.clips)) {
+      issues.push({ path, message: 'Expected { name, clips }' });
+      return null;
+    }
+    if (entry.clips.length > MAX_CLIPS_PER_COLLECTION) {
+      issues.push({ path: `${path}.clips`, message: `Expected at most ${MAX_CLIPS_PER_COLLECTION} clips` });
+      return null;
+    }
+    let name: string;
+    try {
+      name = parseCollectionName(entry.name);
+    } catch (error) {
+      issues.push({ path: `${path}.name`, message: (error as ApiError).message });
+      return null;
+    }
+    const clips = entry.clips.map((clip, j) => {
+      const parsed = parseClipInput(clip, `${path}.clips[${j}]`, issues);
+      const savedAt = isRecord(clip) && typeof clip.savedAt === 'string' ? clip.savedAt : undefined;
+      return parsed && { ...parsed, savedAt };
+    });
+    return { name, clips };
+  });
+
+  if (issues.length > 0) {
+    throw new ApiError('INVALID_PARAMS', 'The import file has invalid entries', { details: { issues: issues.slice(0, 20) } });
+  }
+
+  if (replace) {
+    document.collections = emptyDocument().collections;
+  }
+
+  let added = 0;
+  for (const entry of incoming) {
+    if (!entry) continue;
+    const collection = document.collections.find((existing) => existing.name.toLowerCase() === entry.name.toLowerCase())
+      ?? createCollection(document, entry.name);
+
+    for (const clip of entry.clips) {
+      if (!clip || findSavedClip(collection, clip)) continue;
+      const saved = addClip(collection, clip);
+      if (clip.savedAt) {
+        saved.savedAt = clip.savedAt;
+      }
+      added++;
+    }
+  }
+  return added;
+}
@@ -0,0 +1,296 @@
+import type { Subtitle } from '@/lib/clip';
+
+// Client-side "supercut" export: plays each clip into a canvas in real time,
+// routes its audio through WebAudio, and records both with MediaRecorder into
+// a single file. Browser-only; nothing here runs at import time.
+//
+// Drawing a cross-origin video taints the canvas, after which it can't be
+// recorded, so clips are read through the same-origin proxy where there is
+// one; a bare clip URL only works if its host allows CORS.
+
+export interface CompilationOptions {
+  phrase: string;
+  videos: string[];
+  subtitles: Subtitle[];
+  titleCard: boolean;
+  burnSubtitles: boolean;
+  signal?: AbortSignal;
+  // Called with 0..1 as clips are recorded
+  onProgress?: (progress: number, clipIndex: number) => void;
+}
+
+export interface CompilationResult {
+  blob: Blob;
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+  // Clips that failed to load and were left out
+  skipped: number;
+}
+
+const WIDTH = 1280;
+const HEIGHT = 720;
+const FPS = 30;
+const VIDEO_BITS_PER_SECOND = 5_000_000;
+const TITLE_CARD_MS = 2000;
+const CLIP_LOAD_TIMEOUT_MS = 15_000;
+const SUBTITLE_FONT = 'bold 36px Arial, Helvetica, sans-serif';
+const SUBTITLE_LINE_HEIGHT = 46;
+
+// MP4 first; Chrome and Firefox only record WebM until recently
+const MIME_TYPES = [
+  'video/mp4;codecs=avc1.42E01E,mp4a.40.2',
+  'video/mp4',
+  'video/webm;codecs=vp9,opus',
+  'video/webm;codecs=vp8,opus',
+  'video/webm',
+];
+
+export function getSupportedMimeType(): string | null {
+  if (typeof MediaRecorder === 'undefined') return null;
+  return MIME_TYPES.find((type) => MediaRecorder.isTypeSupported(type)) ?? null;
+}
+
+function abortError(): DOMException {
+  return new DOMException('Export cancelled', 'AbortError');
+}
+
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => resolve()));
+}
+
+function loadVideo(url: string, signal?: AbortSignal): Promise<HTMLVideoElement> {
+  return new Promise((resolve, reject) => {
+    const video = document.createElement('video');
+    video.crossOrigin = 'anonymous';
+    video.playsInline = true;
+    video.preload = 'auto';
+
+    const cleanup = () => {
+      clearTimeout(timer);
+      video.removeEventListener('canplay', handleReady);
+      video.removeEventListener('error', handleError);
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleReady = () => {
+      cleanup();
+      resolve(video);
+    };
+    const handleError = () => {
+      cleanup();
+      reject(new Error(`Could not load ${url}`));
+    };
+    const handleAbort = () => {
+      cleanup();
+      reject(abortError());
+    };
+    const timer = setTimeout(handleError, CLIP_LOAD_TIMEOUT_MS);
+
+    video.addEventListener('canplay', handleReady);
+    video.addEventListener('error', handleError);
+    signal?.addEventListener('abort', handleAbort);
+    video.src = url;
+  });
+}
+
+// Letterboxes the frame into the canvas, keeping its aspect ratio
+function drawVideoFrame(ctx: CanvasRenderingContext2D, video: HTMLVideoElement) {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  if (!video.videoWidth || !video.videoHeight) return;
+
+  const scale = Math.min(WIDTH / video.videoWidth, HEIGHT / video.videoHeight);
+  const width = video.videoWidth * scale;
+  const height = video.videoHeight * scale;
+  ctx.drawImage(video, (WIDTH - width) / 2, (HEIGHT - height) / 2, width, height);
+}
+
+interface PositionedWord {
+  text: string;
+  searched: boolean;
+  x: number;
+  line: number;
+}
+
+// Greedy word wrap, centring each line
+function layoutWords(ctx: CanvasRenderingContext2D, subtitle: Subtitle, maxWidth: number): { words: PositionedWord[]; lines: number } {
+  const source = subtitle.words.length > 0
+    ? subtitle.words.map((word) => ({ text: word.text, searched: word['searched?'] }))
+    : subtitle.text.split(/\s+/).filter(Boolean).map((text) => ({ text, searched: false }));
+
+  const space = ctx.measureText(' ').width;
+  const lines: { words: { text: string; searched: boolean; width: number }[]; width: number }[] = [{ words: [], width: 0 }];
+  for (const word of source) {
+    const width = ctx.measureText(word.text).width;
+    let line = lines[lines.length - 1];
+    if (line.words.length > 0 && line.width + space + width > maxWidth) {
+      line = { words: [], width: 0 };
+      lines.push(line);
+    }
+    line.width += (line.words.length > 0 ? space : 0) + width;
+    line.words.push({ ...word, width });
+  }
+
+  const words: PositionedWord[] = [];
+  lines.forEach((line, lineIndex) => {
+    let x = (WIDTH - line.width) / 2;
+    for (const word of line.words) {
+      words.push({ text: word.text, searched: word.searched, x, line: lineIndex });
+      x += word.width + space;
+    }
+  });
+  return { words, lines: lines.length };
+}
+
+function drawSubtitle(ctx: CanvasRenderingContext2D, subtitle: Subtitle) {
+  ctx.font = SUBTITLE_FONT;
+  ctx.textBaseline = 'top';
+  const { words, lines } = layoutWords(ctx, subtitle, WIDTH * 0.9);
+  const top = HEIGHT - 40 - lines * SUBTITLE_LINE_HEIGHT;
+
+  ctx.lineWidth = 6;
+  ctx.lineJoin = 'round';
+  ctx.strokeStyle = 'rgba(0, 0, 0, 0.85)';
+  for (const word of words) {
+    const y = top + word.line * SUBTITLE_LINE_HEIGHT;
+    ctx.strokeText(word.text, word.x, y);
+    // Same highlight colour as the player overlay (Tailwind yellow-400)
+    ctx.fillStyle = word.searched ? '#facc15' : '#fff';
+    ctx.fillText(word.text, word.x, y);
+  }
+}
+
+function drawTitleCard(ctx: CanvasRenderingContext2D, phrase: string, clipCount: number) {
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, WIDTH, HEIGHT);
+  ctx.textAlign = 'center';
+  ctx.textBaseline = 'middle';
+  ctx.fillStyle = '#facc15';
+  ctx.font = 'bold 64px Arial, Helvetica, sans-serif';
+  ctx.fillText(`“${phrase}”`, WIDTH / 2, HEIGHT / 2 - 30, WIDTH * 0.9);
+  ctx.fillStyle = '#9ca3af';
+  ctx.font = '28px Arial, Helvetica, sans-serif';
+  ctx.fillText(`${clipCount} clip${clipCount === 1 ? '' : 's'}`, WIDTH / 2, HEIGHT / 2 + 40);
+  ctx.textAlign = 'start';
+}
+
+async function recordTitleCard(ctx: CanvasRenderingContext2D, phrase: string, clipCount: number, signal?: AbortSignal) {
+  const startedAt = performance.now();
+  // Keep repainting: captureStream only emits frames when the canvas changes
+  while (performance.now() - startedAt < TITLE_CARD_MS) {
+    if (signal?.aborted) throw abortError();
+    drawTitleCard(ctx, phrase, clipCount);
+    await nextFrame();
+  }
+}
+
+async function recordClip(
+  ctx: CanvasRenderingContext2D,
+  video: HTMLVideoElement,
+  subtitle: Subtitle | undefined,
+  burnSubtitles: boolean,
+  signal: AbortSignal | undefined,
+  onTime: (fraction: number) => void
+) {
+  await video.play();
+  while (!video.ended && !video.paused) {
+    if (signal?.aborted) {
+      video.pause();
+      throw abortError();
+    }
+    drawVideoFrame(ctx, video);
+    if (burnSubtitles && subtitle) {
+      drawSubtitle(ctx, subtitle);
+    }
+    onTime(video.duration ? video.currentTime / video.duration : 0);
+    await nextFrame();
+  }
+}
+
+export async function exportCompilation(options: CompilationOptions): Promise<CompilationResult> {
+  const { phrase, videos, subtitles, titleCard, burnSubtitles, signal, onProgress } = options;
+
+  const mimeType = getSupportedMimeType();
+  if (!mimeType) {
+    throw new Error('This browser cannot record video');
+  }
+
+  const canvas = document.createElement('canvas');
+  canvas.width = WIDTH;
+  canvas.height = HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) {
+    throw new Error('Canvas is not available');
+  }
+
+  // Clip audio goes into the recording only, not the speakers
+  const audioContext = new AudioContext();
+  await audioContext.resume();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const stream = new MediaStream([
+    ...canvas.captureStream(FPS).getVideoTracks(),
+    ...audioDestination.stream.getAudioTracks(),
+  ]);
+
+  const recorder = new MediaRecorder(stream, { mimeType, videoBitsPerSecond: VIDEO_BITS_PER_SECOND });
+  const chunks: Blob[] = [];
+  recorder.addEventListener('dataavailable', (event) => {
+    if (event.data.size > 0) {
+      chunks.push(event.data);
+    }
+  });
+  const stopped = new Promise<void>((resolve) => recorder.addEventListener('stop', () => resolve()));
+
+  let skipped = 0;
+  try {
+    recorder.start(1000);
+
+    if (titleCard) {
+      await recordTitleCard(ctx, phrase, videos.length, signal);
+    }
+
+    for (let i = 0; i < videos.length; i++) {
+      onProgress?.(i / videos.length, i);
+
+      let video: HTMLVideoElement;
+      try {
+        video = await loadVideo(subtitles[i]?.proxy ?? videos[i], signal);
+      } catch (error) {
+        if (signal?.aborted) throw error;
+        console.error('Skipping clip in export:', error);
+        skipped++;
+        continue;
+      }
+
+      const source = audioContext.createMediaElementSource(video);
+      source.connect(audioDestination);
+      try {
+        await recordClip(ctx, video, subtitles[i], burnSubtitles, signal, (fraction) => {
+          onProgress?.((i + fraction) / videos.length, i);
+        });
+      } finally {
+        source.disconnect();
+        video.removeAttribute('src');
+        video.load();
+      }
+    }
+
+    if (skipped === videos.length) {
+      throw new Error('None of the clips could be loaded for export; the clip source may not allow cross-origin access');
+    }
+    onProgress?.(1, videos.length - 1);
+  } finally {
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+    stream.getTracks().forEach((track) => track.stop());
+    await audioContext.close();
+  }
+
+  return {
+    blob: new Blob(chunks, { type: mimeType.split(';')[0] }),
+    mimeType,
+    extension: mimeType.startsWith('video/mp4') ? 'mp4' : 'webm',
+    skipped,
+  };
+}
@@ -0,0 +1,180 @@
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+
+// Typed view of the Worker's bindings, vars and secrets. Non-secret tuning
+// lives in wrangler.jsonc `vars`. Secrets are set with
+// `npx wrangler secret put <NAME>` in production and `.dev.vars` locally;
+// they must never be committed to `vars`.
+export interface AppConfig {
+  // Optional pre-authenticated playphrase session. Without it the session
+  // manager scrapes one from the homepage.
+  playphraseCookies?: string;
+  playphraseCsrfToken?: string;
+  // Shares the scraped playphrase session across isolates; without it each
+  // isolate keeps its own copy in memory
+  sessionStore?: KVNamespace;
+  // Seconds to cache normalized /api/videos responses; 0 disables caching
+  videosCacheTtl: number;
+  // `debug` additionally logs upstream request details and response bodies
+  logLevel: LogLevel;
+  rateLimit: RateLimitConfig;
+  // Keys for internal tools, sent as `X-Api-Key`; they bypass rate limiting
+  apiKeys: string[];
+  // Max concurrent video-view lookups per provider search
+  videoDetailsConcurrency: number;
+  // Saved playlists; only the playlist routes fail without it
+  playlistStore?: KVNamespace;
+  // Saved clip collections; only the collection routes fail without it
+  collectionStore?: KVNamespace;
+  // LibreTranslate-compatible service for study mode's translation line;
+  // only /api/translate fails without it
+  translation?: TranslationConfig;
+  // Public origin (e.g. https://clips.example.com) for absolute links in link
+  // previews and oEmbed; request headers can't be trusted for this
+  siteOrigin?: string;
+}
+
+export interface TranslationConfig {
+  // Base URL; requests go to `${url}/translate`
+  url: string;
+  apiKey?: string;
+}
+
+export interface RateLimitConfig {
+  // Bucket size per client IP; 0 disables rate limiting
+  capacity: number;
+  refillPerMinute: number;
+  // Shared bucket storage; without it buckets live in isolate memory
+  store?: KVNamespace;
+}
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+const DEFAULT_VIDEOS_CACHE_TTL = 3600;
+const DEFAULT_LOG_LEVEL: LogLevel = 'info';
+const DEFAULT_RATE_LIMIT_CAPACITY = 30;
+const DEFAULT_RATE_LIMIT_REFILL_PER_MINUTE = 30;
+const DEFAULT_VIDEO_DETAILS_CONCURRENCY = 3;
+
+export class ConfigError extends Error {
+  // Names of the settings that are missing or invalid
+  readonly settings: string[];
+
+  constructor(message: string, settings: string[]) {
+    super(message);
+    this.name = 'ConfigError';
+    this.settings = settings;
+  }
+}
+
+// Reads an optional non-negative integer var. Returns null when set but invalid.
+function readInteger(env: CloudflareEnv, name: keyof CloudflareEnv, fallback: number): number | null {
+  const value = env[name];
+  if (value === undefined || value === '') return fallback;
+  if (typeof value !== 'string' || !/^\d+$/.test(value.trim())) return null;
+  return parseInt(value, 10);
+}
+
+function readSecret(env: CloudflareEnv, name: keyof CloudflareEnv): string | undefined {
+  const value = env[name];
+  return typeof value === 'string' && value.trim() !== '' ? value.trim() : undefined;
+}
+
+export function loadConfig(env: CloudflareEnv): AppConfig {
+  const problems: { setting: string; reason: string }[] = [];
+
+  const playphraseCookies = readSecret(env, 'PLAYPHRASE_COOKIES');
+  const playphraseCsrfToken = readSecret(env, 'PLAYPHRASE_CSRF_TOKEN');
+
+  // The two only work as a pair; one without the other is a half-finished setup
+  if (playphraseCookies && !playphraseCsrfToken) {
+    problems.push({ setting: 'PLAYPHRASE_CSRF_TOKEN', reason: 'is required when PLAYPHRASE_COOKIES is set' });
+  }
+  if (playphraseCsrfToken && !playphraseCookies) {
+    problems.push({ setting: 'PLAYPHRASE_COOKIES', reason: 'is required when PLAYPHRASE_CSRF_TOKEN is set' });
+  }
+
+  // Reads an integer var, recording a problem (and returning the fallback) when invalid
+  const integerSetting = (name: keyof CloudflareEnv, fallback: number, min: number, unit: string): number => {
+    const value = readInteger(env, name, fallback);
+    if (value === null || value < min) {
+      problems.push({ setting: name, reason: `must be an integer number of ${unit} >= ${min}` });
+      return fallback;
+    }
+    return value;
+  };
+
+  const videosCacheTtl = integerSetting('VIDEOS_CACHE_TTL', DEFAULT_VIDEOS_CACHE_TTL, 0, 'seconds');
+  const rateLimitCapacity = integerSetting('RATE_LIMIT_CAPACITY', DEFAULT_RATE_LIMIT_CAPACITY, 0, 'requests');
+  const rateLimitRefill = integerSetting('RATE_LIMIT_REFILL_PER_MINUTE', DEFAULT_RATE_LIMIT_REFILL_PER_MINUTE, 1, 'requests');
+  const videoDetailsConcurrency = integerSetting('VIDEO_DETAILS_CONCURRENCY', DEFAULT_VIDEO_DETAILS_CONCURRENCY, 1, 'requests');
+
+  const apiKeys = (readSecret(env, 'API_KEYS') ?? '')
+    .split(',')
+    .map((key) => key.trim())
+    .filter(Boolean);
+
+  const translateApiUrl = env.TRANSLATE_API_URL?.trim() || undefined;
+  const translateApiKey = readSecret(env, 'TRANSLATE_API_KEY');
+  if (translateApiUrl && !URL.canParse(translateApiUrl)) {
+    problems.push({ setting: 'TRANSLATE_API_URL', reason: 'must be an absolute URL' });
+  }
+  if (translateApiKey && !translateApiUrl) {
+    problems.push({ setting: 'TRANSLATE_API_URL', reason: 'is required when TRANSLATE_API_KEY is set' });
+  }
+
+  const siteUrl = env.SITE_URL?.trim() || undefined;
+  if (siteUrl && !URL.canParse(siteUrl)) {
+    problems.push({ setting: 'SITE_URL', reason: 'must be an absolute URL' });
+  }
+
+  const logLevel = env.LOG_LEVEL?.trim().toLowerCase() || DEFAULT_LOG_LEVEL;
+  if (!(LOG_LEVELS as readonly string[]).includes(logLevel)) {
+    problems.push({ setting: 'LOG_LEVEL', reason: `must be one of ${LOG_LEVELS.join(', ')}` });
+  }
+
+  if (problems.length > 0) {
+    throw new ConfigError(
+      `Invalid configuration: ${problems.map((p) => `${p.setting} ${p.reason}`).join('; ')}`,
+      problems.map((p) => p.setting)
+    );
+  }
+
+  return {
+    playphraseCookies,
+    playphraseCsrfToken,
+    sessionStore: env.SESSION_KV,
+    videosCacheTtl,
+    logLevel: logLevel as LogLevel,
+    rateLimit: {
+      capacity: rateLimitCapacity,
+      refillPerMinute: rateLimitRefill,
+      store: env.RATE_LIMIT_KV,
+    },
+    apiKeys,
+    videoDetailsConcurrency,
+    playlistStore: env.PLAYLISTS_KV,
+    collectionStore: env.COLLECTIONS_KV,
+    translation: translateApiUrl ? { url: translateApiUrl.replace(/\/+$/, ''), apiKey: translateApiKey } : undefined,
+    siteOrigin: siteUrl ? new URL(siteUrl).origin : undefined,
+  };
+}
+
+// Validated once per env object, i.e. once per Worker isolate in practice
+const configCache = new WeakMap<CloudflareEnv, AppConfig>();
+
+export function getConfig(): AppConfig {
+  let env: CloudflareEnv;
+  try {
+    env = getCloudflareContext().env;
+  } catch {
+    throw new ConfigError('Cloudflare context is unavailable; run via `next dev` or `wrangler`', []);
+  }
+
+  let config = configCache.get(env);
+  if (!config) {
+    config = loadConfig(env);
+    configCache.set(env, config);
+  }
+  return config;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { scoreDictation } from '@/lib/dictation';
+
+const statuses = (words: string[], attempt: string, language = 'en') =>
+  scoreDictation(words, attempt, language).tokens.map((token) => `${token.text}:${token.status}`);
+
+describe('scoreDictation', () => {
+  it.each([
+    ['ill be back', "I'll be back."],
+    ['Ill be back', 'I’ll be back'],
+    ["dont worry", "Don't worry,"],
+    ['I’ll BE back!', "I'll be back."],
+  ])('counts %j as a perfect answer to %j', (attempt, line) => {
+    const result = scoreDictation(line.split(' '), attempt, 'en');
+    expect(result.perfect).toBe(true);
+    expect(result.correct).toBe(result.total);
+  });
+
+  it('aligns around a wrong word', () => {
+    expect(statuses(["I'll", 'be', 'back.'], "I'll go back")).toEqual([
+      "I'll:correct",
+      'be:missed',
+      'go:extra',
+      'back.:correct',
+    ]);
+  });
+
+  it('marks words left out as missed', () => {
+    const result = scoreDictation(['Don’t', 'worry,', 'I’ll', 'be', 'back'], 'dont worry', 'en');
+    expect(result.correct).toBe(2);
+    expect(result.perfect).toBe(false);
+  });
+
+  it('compares unspaced languages per character', () => {
+    const result = scoreDictation(['お元気ですか'], 'お元気ですか。', 'ja');
+    expect(result.spaced).toBe(false);
+    expect(result.total).toBe(6);
+    expect(result.perfect).toBe(true);
+  });
+});
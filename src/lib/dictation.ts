@@ -0,0 +1,77 @@
+import { getLanguage } from '@/lib/languages';
+
+// Scores a dictation attempt against a subtitle's words. The attempt is
+// aligned with the expected words by longest common subsequence, so one
+// wrong word doesn't throw off the rest of the line.
+
+export type DictationStatus = 'correct' | 'missed' | 'extra';
+
+export interface DictationToken {
+  // The expected word for `correct` and `missed`, the typed one for `extra`
+  text: string;
+  status: DictationStatus;
+}
+
+export interface DictationResult {
+  tokens: DictationToken[];
+  correct: number;
+  // Expected words (characters for languages written without spaces)
+  total: number;
+  perfect: boolean;
+  // Join tokens with spaces when displaying them
+  spaced: boolean;
+}
+
+// Apostrophes included, so "ill" for "I'll" still counts
+const PUNCTUATION = /[.,!?;:"'`´‛′“”‘’«»¿¡…()[\]{}。、，！？：；「」『』—–-]/g;
+
+// Case and punctuation don't count against the learner
+function normalize(text: string): string {
+  return text.normalize('NFKC').toLowerCase().replace(PUNCTUATION, '').trim();
+}
+
+function tokenize(text: string, spaced: boolean): string[] {
+  return spaced ? text.split(/\s+/).filter(Boolean) : Array.from(text.replace(/\s+/g, ''));
+}
+
+export function scoreDictation(words: string[], attempt: string, language: string): DictationResult {
+  // Scripts that don't separate words with spaces are compared per character
+  const spaced = getLanguage(language)?.query.spaced ?? true;
+  const expected = tokenize(words.join(' '), spaced).filter((token) => normalize(token));
+  const typed = tokenize(attempt, spaced).filter((token) => normalize(token));
+  const expectedKeys = expected.map(normalize);
+  const typedKeys = typed.map(normalize);
+
+  // lengths[i][j]: LCS length of expected[i..] and typed[j..]
+  const lengths = Array.from({ length: expected.length + 1 }, () => new Array<number>(typed.length + 1).fill(0));
+  for (let i = expected.length - 1; i >= 0; i--) {
+    for (let j = typed.length - 1; j >= 0; j--) {
+      lengths[i][j] = expectedKeys[i] === typedKeys[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const tokens: DictationToken[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < expected.length || j < typed.length) {
+    if (i < expected.length && j < typed.length && expectedKeys[i] === typedKeys[j]) {
+      tokens.push({ text: expected[i++], status: 'correct' });
+      j++;
+    } else if (j >= typed.length || (i < expected.length && lengths[i + 1][j] >= lengths[i][j + 1])) {
+      tokens.push({ text: expected[i++], status: 'missed' });
+    } else {
+      tokens.push({ text: typed[j++], status: 'extra' });
+    }
+  }
+
+  const correct = tokens.filter((token) => token.status === 'correct').length;
+  return {
+    tokens,
+    correct,
+    total: expected.length,
+    perfect: correct === expected.length && correct === tokens.length,
+    spaced,
+  };
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { formatQuery, getLanguage, isSupportedLanguage, LANGUAGES } from '@/lib/languages';
+
+describe('formatQuery', () => {
+  it.each([
+    // phrase, language, exact, expected query
+    ['I think so', 'en', true, '"I think so"'],
+    ['I think so', 'en', false, 'I think so'],
+    ['say “hello”  there', 'en', true, '"say hello there"'],
+    ['it’s   fine ', 'es', true, "it's fine"],
+    ['Je reviens', 'fr', true, 'Je reviens'],
+    ['ＡＢＣ テスト', 'ja', true, 'ABC テスト'],
+    ['ｈｅｌｌｏ', 'ko', true, 'hello'],
+    ['ｈｅｌｌｏ', 'de', true, 'ｈｅｌｌｏ'],
+  ])('%j in %s (exact: %s) is sent as %j', (phrase, language, exact, expected) => {
+    expect(formatQuery(phrase, language, { exact })).toBe(expected);
+  });
+});
+
+describe('LANGUAGES', () => {
+  it('has unique codes, each supported', () => {
+    const codes = LANGUAGES.map((language) => language.code);
+    expect(new Set(codes).size).toBe(codes.length);
+    expect(codes.every(isSupportedLanguage)).toBe(true);
+    expect(isSupportedLanguage('xx')).toBe(false);
+  });
+
+  it.each(['ja', 'zh'])('treats %s as written without spaces', (code) => {
+    expect(getLanguage(code)?.query.spaced).toBe(false);
+  });
+
+  it('keeps fillers to lowercase single words', () => {
+    for (const { query } of LANGUAGES) {
+      for (const filler of query.fillers) {
+        expect(filler).toMatch(/^\S+$/);
+        expect(filler).toBe(filler.toLowerCase());
+      }
+    }
+  });
+});
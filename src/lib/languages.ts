@@ -0,0 +1,86 @@
+// Languages the clip source supports, with how to phrase a search in each.
+// Codes are the ones the clip source expects in its `language` parameter.
+// Served as-is by /api/languages; the search UI and the API validation both
+// read this table, so a language only needs adding here.
+
+export interface QueryRules {
+  // Wrap the phrase in double quotes so it matches as a whole
+  quoted: boolean;
+  // Unicode normalization applied to the phrase; NFKC also folds full-width
+  // forms typed with CJK input methods
+  normalization: 'NFC' | 'NFKC';
+  // Words are separated by spaces (false for scripts written without them)
+  spaced: boolean;
+  // Hesitation sounds dropped when a search finds nothing as typed. Only
+  // sounds that are never words in their own right ("um", not "like"),
+  // since they're removed wherever they appear in the phrase.
+  fillers: string[];
+}
+
+export interface Language {
+  code: string;
+  name: string;
+  // The language's name for itself
+  nativeName: string;
+  query: QueryRules;
+}
+
+export const DEFAULT_LANGUAGE = 'en';
+
+const SPACED: QueryRules = { quoted: false, normalization: 'NFC', spaced: true, fillers: [] };
+const UNSPACED: QueryRules = { quoted: false, normalization: 'NFKC', spaced: false, fillers: [] };
+
+export const LANGUAGES: Language[] = [
+  // The English index matches loosely unless the phrase is quoted
+  {
+    code: 'en',
+    name: 'English',
+    nativeName: 'English',
+    query: { ...SPACED, quoted: true, fillers: ['um', 'umm', 'uh', 'uhh', 'er', 'erm', 'hmm', 'mm'] },
+  },
+  { code: 'es', name: 'Spanish', nativeName: 'Español', query: { ...SPACED, fillers: ['eh', 'em', 'mmm'] } },
+  { code: 'fr', name: 'French', nativeName: 'Français', query: { ...SPACED, fillers: ['euh', 'heu', 'hum'] } },
+  { code: 'de', name: 'German', nativeName: 'Deutsch', query: { ...SPACED, fillers: ['äh', 'ähm', 'öh', 'hm'] } },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano', query: { ...SPACED, fillers: ['ehm', 'mmm'] } },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português', query: { ...SPACED, fillers: ['hum', 'hã', 'éh'] } },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский', query: { ...SPACED, fillers: ['эм', 'ээ', 'мм', 'хм'] } },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands', query: { ...SPACED, fillers: ['eh', 'uh', 'ehm', 'hm'] } },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski', query: SPACED },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe', query: SPACED },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語', query: UNSPACED },
+  // Korean separates words with spaces but is typed with the same IMEs as Japanese and Chinese
+  { code: 'ko', name: 'Korean', nativeName: '한국어', query: { ...SPACED, normalization: 'NFKC' } },
+  { code: 'zh', name: 'Chinese', nativeName: '中文', query: UNSPACED },
+];
+
+export function getLanguage(code: string): Language | undefined {
+  return LANGUAGES.find((language) => language.code === code);
+}
+
+export function isSupportedLanguage(code: string): boolean {
+  return getLanguage(code) !== undefined;
+}
+
+export function getLanguageName(code: string): string {
+  return getLanguage(code)?.name ?? code;
+}
+
+// Curly, reversed and prime quote marks as the plain ' and " the clip
+// source indexes. The one place phrases get their quotes evened out.
+export function straightenQuotes(text: string): string {
+  return text.replace(/[‘’‛′`´]/g, "'").replace(/[“”„‟″]/g, '"');
+}
+
+// Turns a typed phrase into the query string the clip source expects:
+// normalized, with quotes straightened and whitespace collapsed, and
+// quoted where the language asks for it unless `exact` is false.
+export function formatQuery(phrase: string, code: string, { exact = true }: { exact?: boolean } = {}): string {
+  const rules = getLanguage(code)?.query ?? SPACED;
+  const query = straightenQuotes(phrase.normalize(rules.normalization))
+    .replace(/\s+/g, ' ')
+    .trim();
+
+  if (!rules.quoted || !exact) return query;
+  // Quotes inside the phrase would end the quoted query early
+  return `"${query.replace(/"/g, '').trim()}"`;
+}
@@ -0,0 +1,116 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { getConfig, LOG_LEVELS, type LogLevel } from '@/lib/config';
+
+// JSON-lines logger for Workers observability. Each line carries the current
+// request's correlation id, and credential-looking fields are redacted before
+// anything is written.
+
+type LogFields = Record<string, unknown>;
+
+interface RequestLogContext {
+  requestId: string;
+  level: LogLevel;
+  fields: LogFields;
+}
+
+const requestContext = new AsyncLocalStorage<RequestLogContext>();
+
+const DEFAULT_LEVEL: LogLevel = 'info';
+const REDACTED = '[REDACTED]';
+// Matches header and field names such as Cookie, Set-Cookie, X-Csrf-Token,
+// csrfToken, Authorization and apiKey
+const SENSITIVE_KEY = /cookie|csrf|authorization|token|secret|password|api[-_]?key/i;
+// Incoming ids are echoed back, so only accept simple ones
+const VALID_REQUEST_ID = /^[\w-]{1,64}$/;
+const MAX_DEPTH = 6;
+
+export function redact(value: unknown, depth: number = 0): unknown {
+  if (depth > MAX_DEPTH) return '[Truncated]';
+
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack };
+  }
+  if (value instanceof Headers) {
+    return redact(Object.fromEntries(value.entries()), depth);
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => redact(item, depth + 1));
+  }
+  if (typeof value === 'object' && value !== null) {
+    const result: LogFields = {};
+    for (const [key, item] of Object.entries(value)) {
+      // Booleans like `hasCookies` say nothing secret and are useful to keep
+      result[key] = SENSITIVE_KEY.test(key) && typeof item !== 'boolean' ? REDACTED : redact(item, depth + 1);
+    }
+    return result;
+  }
+  return value;
+}
+
+function write(level: LogLevel, message: string, fields?: LogFields) {
+  const context = requestContext.getStore();
+  const threshold = context?.level ?? DEFAULT_LEVEL;
+  if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(threshold)) return;
+
+  const line = JSON.stringify({
+    level,
+    message,
+    time: new Date().toISOString(),
+    requestId: context?.requestId,
+    ...(redact({ ...context?.fields, ...fields }) as LogFields),
+  });
+
+  // Use the matching console method so Workers observability picks up the level
+  switch (level) {
+    case 'debug': console.debug(line); break;
+    case 'info': console.log(line); break;
+    case 'warn': console.warn(line); break;
+    case 'error': console.error(line); break;
+  }
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+
+  isDebugEnabled(): boolean {
+    return (requestContext.getStore()?.level ?? DEFAULT_LEVEL) === 'debug';
+  },
+};
+
+function resolveLevel(): LogLevel {
+  try {
+    return getConfig().logLevel;
+  } catch {
+    // Config errors are reported by the handler itself
+    return DEFAULT_LEVEL;
+  }
+}
+
+// Wraps a route handler so everything it logs shares one correlation id,
+// which is also returned to the client in `X-Request-Id`.
+export function withRequestLogging<Args extends [Request, ...unknown[]]>(
+  handler: (...args: Args) => Promise<Response>
+): (...args: Args) => Promise<Response> {
+  return async (...args: Args) => {
+    const [request] = args;
+    const incomingId = request.headers.get('X-Request-Id');
+    const requestId = incomingId && VALID_REQUEST_ID.test(incomingId) ? incomingId : crypto.randomUUID();
+
+    const context: RequestLogContext = {
+      requestId,
+      level: resolveLevel(),
+      fields: {
+        method: request.method,
+        path: new URL(request.url).pathname,
+        cfRay: request.headers.get('CF-Ray') ?? undefined,
+      },
+    };
+
+    const response = await requestContext.run(context, () => handler(...args));
+    response.headers.set('X-Request-Id', requestId);
+    return response;
+  };
+}
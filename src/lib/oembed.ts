@@ -0,0 +1,82 @@
+import { ApiError } from '@/lib/api-error';
+import { EMBED_HEIGHT, EMBED_WIDTH, embedHtml, embedPath, parseSharedPhrase, phraseTitle, type SharedPhrase } from '@/lib/sharing';
+
+// oEmbed (https://oembed.com) for phrase links, so docs, chat apps and LMSes
+// that support it turn a pasted link into the `/embed` player. Only JSON is
+// offered.
+
+export interface OEmbedQuery {
+  shared: SharedPhrase;
+  maxWidth: number;
+  maxHeight: number;
+}
+
+export interface OEmbedBody {
+  version: '1.0';
+  type: 'video';
+  title: string;
+  provider_name: string;
+  provider_url: string;
+  html: string;
+  width: number;
+  height: number;
+}
+
+const PROVIDER_NAME = 'Phrase to Clip';
+const MIN_EMBED_WIDTH = 160;
+
+function parseMaxSize(searchParams: URLSearchParams, name: string, fallback: number): number {
+  const value = searchParams.get(name);
+  if (value === null) return fallback;
+  const size = Number(value);
+  if (!Number.isInteger(size) || size <= 0) {
+    throw new ApiError('INVALID_PARAMS', `Invalid parameter: ${name} must be a positive integer`);
+  }
+  return Math.min(size, fallback);
+}
+
+// `origin` is this site's; links to anywhere else aren't ours to embed
+export function parseOEmbedQuery(searchParams: URLSearchParams, origin: string): OEmbedQuery {
+  const format = searchParams.get('format');
+  if (format !== null && format !== 'json') {
+    throw new ApiError('INVALID_PARAMS', 'Invalid parameter: format must be json');
+  }
+
+  const url = searchParams.get('url');
+  if (!url) {
+    throw new ApiError('INVALID_PARAMS', 'Missing required parameter: url');
+  }
+  if (!URL.canParse(url)) {
+    throw new ApiError('INVALID_PARAMS', 'Invalid parameter: url must be an absolute URL');
+  }
+  const parsed = new URL(url);
+  const shared = parsed.origin === origin ? parseSharedPhrase(parsed) : null;
+  if (!shared) {
+    throw new ApiError('NO_RESULTS', 'Only links to a phrase on this site can be embedded');
+  }
+
+  return {
+    shared,
+    maxWidth: parseMaxSize(searchParams, 'maxwidth', EMBED_WIDTH),
+    maxHeight: parseMaxSize(searchParams, 'maxheight', EMBED_HEIGHT),
+  };
+}
+
+export function buildOEmbed({ shared, maxWidth, maxHeight }: OEmbedQuery, origin: string): OEmbedBody {
+  // The largest 16:9 box that fits both limits
+  const width = Math.max(MIN_EMBED_WIDTH, Math.min(maxWidth, Math.floor((maxHeight * EMBED_WIDTH) / EMBED_HEIGHT)));
+  const height = Math.round((width * EMBED_HEIGHT) / EMBED_WIDTH);
+  const title = phraseTitle(shared.phrase, shared.language);
+  const src = `${origin}${embedPath(shared.phrase, shared.language, { tight: shared.tight, padding: shared.padding })}`;
+
+  return {
+    version: '1.0',
+    type: 'video',
+    title,
+    provider_name: PROVIDER_NAME,
+    provider_url: `${origin}/`,
+    html: embedHtml(src, title, width, height),
+    width,
+    height,
+  };
+}
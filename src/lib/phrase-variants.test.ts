@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest';
+import { formatQuery } from '@/lib/languages';
+import { buildPhraseVariants, normalizePhrase } from '@/lib/phrase-variants';
+
+type Row = [string, string, [string, string, boolean][]];
+
+// phrase, language, then every variant as [strategy, phrase, exact], in order
+const VARIANT_TABLE: Row[] = [
+  ['hello', 'en', [['exact', 'hello', true], ['unquoted', 'hello', false]]],
+  ['I think so', 'en', [
+    ['exact', 'i think so', true],
+    ['unquoted', 'i think so', false],
+    ['sub-phrase', 'i think', true],
+    ['sub-phrase', 'think so', true],
+  ]],
+  ['Dont, um, go', 'en', [
+    ['exact', "don't um go", true],
+    ['unquoted', "don't um go", false],
+    ['without-fillers', "don't go", false],
+  ]],
+  ["'tis the season", 'en', [
+    ['exact', "'tis the season", true],
+    ['unquoted', "'tis the season", false],
+    ['sub-phrase', "'tis the", true],
+    ['sub-phrase', 'the season', true],
+  ]],
+  ['Je reviens tout de suite', 'fr', [
+    ['exact', 'je reviens tout de suite', true],
+    ['sub-phrase', 'je reviens tout de', true],
+    ['sub-phrase', 'reviens tout de suite', true],
+    ['sub-phrase', 'je reviens tout', true],
+  ]],
+  ['お元気ですか', 'ja', [['exact', 'お元気ですか', true]]],
+  ['ＡＢＣ テスト', 'ja', [['exact', 'abc テスト', true]]],
+];
+
+describe('buildPhraseVariants', () => {
+  it.each(VARIANT_TABLE)('%j in %s', (phrase, language, expected) => {
+    const variants = buildPhraseVariants(phrase, language).map((variant) => [variant.strategy, variant.phrase, variant.exact]);
+    expect(variants).toEqual(expected);
+  });
+});
+
+const phrasesOf = (phrase: string, language: string) => buildPhraseVariants(phrase, language).map((variant) => variant.phrase);
+
+describe('fillers', () => {
+  it.each([
+    ['I think so', 'en'],
+    ['I like you', 'en'],
+    ['oh my god', 'en'],
+    ['well well well', 'en'],
+    ['pues bueno', 'es'],
+  ])('keeps ordinary words in %j', (phrase, language) => {
+    const variants = buildPhraseVariants(phrase, language);
+    expect(variants.map((variant) => variant.strategy)).not.toContain('without-fillers');
+    expect(variants[0].phrase).toBe(normalizePhrase(phrase, language));
+  });
+
+  it('drops hesitation sounds anywhere in the phrase', () => {
+    expect(buildPhraseVariants('I, um, love you', 'en')).toContainEqual({
+      strategy: 'without-fillers',
+      phrase: 'i love you',
+      exact: false,
+    });
+  });
+});
+
+describe('normalizePhrase quotes', () => {
+  it.each([
+    ["'tis the season", "'tis the season"],
+    ['‘Tis the season', "'tis the season"],
+    ["'hello there'", 'hello there'],
+    ['“hello there”', 'hello there'],
+    ["rock 'n' roll", "rock 'n' roll"],
+    ['Don’t stop', "don't stop"],
+  ])('%j becomes %j', (phrase, expected) => {
+    expect(normalizePhrase(phrase, 'en')).toBe(expected);
+  });
+
+  it('straightens the same quote marks as formatQuery', () => {
+    expect(formatQuery('it´s “fine”', 'es')).toBe('it\'s "fine"');
+    expect(normalizePhrase('it´s', 'en')).toBe("it's");
+  });
+});
+
+describe('sub-phrases', () => {
+  it('never invents words the user did not type', () => {
+    for (const phrase of phrasesOf('so I said like whatever', 'en')) {
+      expect('so i said like whatever').toContain(phrase);
+    }
+  });
+});
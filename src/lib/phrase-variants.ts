@@ -0,0 +1,118 @@
+import { getLanguage, straightenQuotes } from '@/lib/languages';
+
+// What a phrase search actually sends. Phrases are normalized first (case,
+// punctuation, quote styles, missing apostrophes), and when that finds
+// nothing the search falls back through looser variants in order: the phrase
+// unquoted, without filler words, then ever shorter runs of its words.
+// Pure functions, safe to import on the client.
+
+export type MatchStrategy = 'exact' | 'unquoted' | 'without-fillers' | 'sub-phrase';
+
+export interface PhraseVariant {
+  strategy: MatchStrategy;
+  phrase: string;
+  // Passed to the provider; false drops the quotes a language's rules add
+  exact: boolean;
+}
+
+// Reported by /api/videos when the results came from a fallback variant
+export interface PhraseMatch {
+  phrase: string;
+  strategy: MatchStrategy;
+}
+
+// Each variant is another upstream search (and rate-limit token), so stop
+// after this many
+const MAX_VARIANTS = 4;
+const MIN_SUB_PHRASE_WORDS = 2;
+
+// Contractions commonly typed without their apostrophe. Only ones that
+// aren't words in their own right ("ill", "were" and "its" are left alone).
+const CONTRACTIONS: Record<string, Record<string, string>> = {
+  en: {
+    im: "i'm",
+    ive: "i've",
+    dont: "don't",
+    doesnt: "doesn't",
+    didnt: "didn't",
+    cant: "can't",
+    couldnt: "couldn't",
+    wont: "won't",
+    wouldnt: "wouldn't",
+    shouldnt: "shouldn't",
+    isnt: "isn't",
+    arent: "aren't",
+    wasnt: "wasn't",
+    werent: "weren't",
+    havent: "haven't",
+    hasnt: "hasn't",
+    hadnt: "hadn't",
+    youre: "you're",
+    youve: "you've",
+    theyre: "they're",
+    theyve: "they've",
+    thats: "that's",
+    whats: "what's",
+    theres: "there's",
+    lets: "let's",
+  },
+};
+
+// Quotes wrapped around the whole phrase, as in 'hello there'
+const WRAPPING_QUOTES = /^\s*(['"])([\s\S]*)\1\s*$/;
+
+// Lowercased, quotes straightened and any pair around the whole phrase
+// dropped, other punctuation turned into spaces (apostrophes are kept, so
+// "'tis" survives) and whitespace collapsed. Falls back to the trimmed
+// input if nothing would be left.
+export function normalizePhrase(phrase: string, language: string): string {
+  const rules = getLanguage(language)?.query;
+  const contractions = CONTRACTIONS[language] ?? {};
+  const normalized = straightenQuotes(phrase.normalize(rules?.normalization ?? 'NFC'))
+    .replace(WRAPPING_QUOTES, '$2')
+    .toLocaleLowerCase(language)
+    .replace(/[^\p{L}\p{M}\p{N}'\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map((word) => contractions[word] ?? word)
+    .join(' ');
+  return normalized || phrase.trim();
+}
+
+// The normalized phrase followed by its fallbacks, most faithful first
+export function buildPhraseVariants(phrase: string, language: string): PhraseVariant[] {
+  const rules = getLanguage(language)?.query;
+  const normalized = normalizePhrase(phrase, language);
+  const variants: PhraseVariant[] = [{ strategy: 'exact', phrase: normalized, exact: true }];
+
+  if (rules?.quoted) {
+    variants.push({ strategy: 'unquoted', phrase: normalized, exact: false });
+  }
+
+  const fillers = new Set(rules?.fillers ?? []);
+  const words = normalized.split(' ');
+  const kept = words.filter((word) => !fillers.has(word));
+  if (kept.length > 0 && kept.length < words.length) {
+    variants.push({ strategy: 'without-fillers', phrase: kept.join(' '), exact: false });
+  }
+
+  // Longest runs first, and left to right within a length, since the start
+  // of a phrase is usually what people remember best
+  if (rules?.spaced !== false) {
+    for (let size = kept.length - 1; size >= MIN_SUB_PHRASE_WORDS; size--) {
+      for (let start = 0; start + size <= kept.length; start++) {
+        variants.push({ strategy: 'sub-phrase', phrase: kept.slice(start, start + size).join(' '), exact: true });
+      }
+    }
+  }
+
+  const seen = new Set<string>();
+  return variants
+    .filter((variant) => {
+      const key = `${variant.exact}:${variant.phrase}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, MAX_VARIANTS);
+}
@@ -0,0 +1,201 @@
+import { ApiError, toApiError } from '@/lib/api-error';
+import type { Subtitle } from '@/lib/clip';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { ConfigError, type AppConfig } from '@/lib/config';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '@/lib/languages';
+import { logger } from '@/lib/logger';
+import { resolveProviders } from '@/lib/providers';
+import { isRecord, type ValidationIssue } from '@/lib/validation';
+import { loadVideos, type LoadVideosOptions, type SessionPool, type VideosBody } from '@/lib/video-search';
+
+// Playlists chain several phrase searches into one sequence. They are
+// resolved once when created and stored in KV, so playing one back costs no
+// upstream calls.
+
+export interface PlaylistItemRequest {
+  phrase: string;
+  language: string;
+  count: number;
+  provider?: string;
+}
+
+export interface PlaylistRequest {
+  title?: string;
+  items: PlaylistItemRequest[];
+}
+
+export interface PlaylistSection {
+  phrase: string;
+  language: string;
+  videos: string[];
+  subtitles: Subtitle[];
+  // Set when this phrase could not be resolved; the section is then empty
+  error?: string;
+}
+
+export interface Playlist {
+  id: string;
+  title?: string;
+  createdAt: string;
+  sections: PlaylistSection[];
+}
+
+const MAX_ITEMS = 20;
+const MAX_CLIPS_PER_ITEM = 20;
+const DEFAULT_CLIPS_PER_ITEM = 5;
+const MAX_TITLE_LENGTH = 200;
+const MAX_PHRASE_LENGTH = 200;
+// Items resolved in parallel; each one already fans out to video lookups
+const RESOLVE_CONCURRENCY = 2;
+const PLAYLIST_TTL_SECONDS = 30 * 24 * 60 * 60;
+const ID_LENGTH = 10;
+const ID_ALPHABET = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+const VALID_ID = /^[0-9A-Za-z]{10}$/;
+
+export function requirePlaylistStore(config: AppConfig): KVNamespace {
+  if (!config.playlistStore) {
+    throw new ConfigError(
+      'Invalid configuration: PLAYLISTS_KV KV namespace binding is missing (create it with `npx wrangler kv namespace create PLAYLISTS_KV`)',
+      ['PLAYLISTS_KV']
+    );
+  }
+  return config.playlistStore;
+}
+
+// Short, URL-safe and unguessable enough for share links
+function generateId(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(ID_LENGTH));
+  return Array.from(bytes, (byte) => ID_ALPHABET[byte % ID_ALPHABET.length]).join('');
+}
+
+export function isValidPlaylistId(id: string): boolean {
+  return VALID_ID.test(id);
+}
+
+function parseItem(raw: unknown, path: string, issues: ValidationIssue[]): PlaylistItemRequest | null {
+  if (!isRecord(raw)) {
+    issues.push({ path, message: 'Expected an object with a phrase' });
+    return null;
+  }
+
+  const phrase = typeof raw.phrase === 'string' ? raw.phrase.trim() : '';
+  if (!phrase || phrase.length > MAX_PHRASE_LENGTH) {
+    issues.push({ path: `${path}.phrase`, message: `Expected a non-empty string of up to ${MAX_PHRASE_LENGTH} characters` });
+    return null;
+  }
+
+  const language = raw.language === undefined ? DEFAULT_LANGUAGE : raw.language;
+  if (typeof language !== 'string' || !isSupportedLanguage(language)) {
+    issues.push({ path: `${path}.language`, message: 'Expected a supported language code (see /api/languages)' });
+    return null;
+  }
+
+  const count = raw.count === undefined ? DEFAULT_CLIPS_PER_ITEM : raw.count;
+  if (typeof count !== 'number' || !Number.isInteger(count) || count < 1 || count > MAX_CLIPS_PER_ITEM) {
+    issues.push({ path: `${path}.count`, message: `Expected an integer between 1 and ${MAX_CLIPS_PER_ITEM}` });
+    return null;
+  }
+
+  if (raw.provider !== undefined && typeof raw.provider !== 'string') {
+    issues.push({ path: `${path}.provider`, message: 'Expected a provider name' });
+    return null;
+  }
+
+  return { phrase, language, count, provider: raw.provider };
+}
+
+export function parsePlaylistRequest(body: unknown): PlaylistRequest {
+  if (!isRecord(body) || !Array.isArray(body.items)) {
+    throw new ApiError('INVALID_PARAMS', 'Expected a JSON body with an `items` array');
+  }
+  if (body.items.length === 0 || body.items.length > MAX_ITEMS) {
+    throw new ApiError('INVALID_PARAMS', `A playlist needs between 1 and ${MAX_ITEMS} items`);
+  }
+  if (body.title !== undefined && (typeof body.title !== 'string' || body.title.length > MAX_TITLE_LENGTH)) {
+    throw new ApiError('INVALID_PARAMS', `title must be a string of up to ${MAX_TITLE_LENGTH} characters`);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const items = body.items
+    .map((item, i) => parseItem(item, `items[${i}]`, issues))
+    .filter((item): item is PlaylistItemRequest => item !== null);
+
+  if (issues.length > 0) {
+    throw new ApiError('INVALID_PARAMS', 'Some playlist items are invalid', { details: { issues } });
+  }
+
+  return { title: body.title?.trim() || undefined, items };
+}
+
+async function resolveItem(
+  item: PlaylistItemRequest,
+  config: AppConfig,
+  options: LoadVideosOptions
+): Promise<PlaylistSection> {
+  const { providers, unknown } = resolveProviders(item.provider ?? null);
+  if (unknown.length > 0 || providers.length === 0) {
+    throw new ApiError('INVALID_PARAMS', `Unknown provider: ${unknown.join(', ') || '(empty)'}`);
+  }
+
+  const { result } = await loadVideos({
+    phrase: item.phrase,
+    language: item.language,
+    limit: item.count,
+    skip: 0,
+    providers,
+    tightPadding: null,
+    filter: [],
+    exclude: [],
+    variant: null,
+  }, config, options);
+  const { videos, subtitles } = JSON.parse(result.body) as VideosBody;
+
+  return { phrase: item.phrase, language: item.language, videos, subtitles };
+}
+
+// Resolves every item, keeping phrases that fail as empty sections so one
+// bad phrase doesn't sink the playlist. Fails only when nothing resolved.
+// Phrases that fall back to looser variants are charged through `chargeFallback`.
+export async function createPlaylist(
+  request: PlaylistRequest,
+  config: AppConfig,
+  chargeFallback?: LoadVideosOptions['chargeFallback']
+): Promise<Playlist> {
+  const store = requirePlaylistStore(config);
+
+  const sessions: SessionPool = new Map();
+  let firstError: unknown;
+  const sections = await mapWithConcurrency(request.items, RESOLVE_CONCURRENCY, async (item) => {
+    try {
+      return await resolveItem(item, config, { sessions, chargeFallback });
+    } catch (error) {
+      const apiError = toApiError(error);
+      // Bad input and config problems apply to the whole request
+      if (apiError.code === 'INVALID_PARAMS' || apiError.code === 'SERVER_MISCONFIGURED') throw error;
+
+      logger.warn('Playlist item failed', { phrase: item.phrase, language: item.language, code: apiError.code });
+      firstError ??= error;
+      return { phrase: item.phrase, language: item.language, videos: [], subtitles: [], error: apiError.message };
+    }
+  });
+
+  if (sections.every((section) => section.videos.length === 0)) {
+    throw firstError ?? new ApiError('NO_RESULTS', 'None of the playlist phrases have clips');
+  }
+
+  const playlist: Playlist = {
+    id: generateId(),
+    title: request.title,
+    createdAt: new Date().toISOString(),
+    sections,
+  };
+
+  await store.put(`playlist:${playlist.id}`, JSON.stringify(playlist), { expirationTtl: PLAYLIST_TTL_SECONDS });
+  logger.info('Playlist created', { playlistId: playlist.id, sections: sections.length });
+  return playlist;
+}
+
+export async function getPlaylist(id: string, config: AppConfig): Promise<Playlist | null> {
+  if (!isValidPlaylistId(id)) return null;
+  return requirePlaylistStore(config).get<Playlist>(`playlist:${id}`, 'json');
+}
@@ -0,0 +1,39 @@
+import { existsSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { fixtureProvider } from '@/lib/providers/fixture';
+
+const session = { cookies: '', csrfToken: '' };
+const page = { limit: 10, skip: 0 };
+
+describe('fixtureProvider', () => {
+  it('matches phrases case-insensitively within a language', async () => {
+    const clips = await fixtureProvider.search("i'll be back", 'en', page, session);
+    expect(clips.map((clip) => clip.id)).toEqual(['fixture-1', 'fixture-2']);
+    expect(await fixtureProvider.search("i'll be back", 'fr', page, session)).toEqual([]);
+  });
+
+  it('pages with skip and limit', async () => {
+    const clips = await fixtureProvider.search('be back', 'en', { limit: 1, skip: 1 }, session);
+    expect(clips.map((clip) => clip.id)).toEqual(['fixture-2']);
+  });
+
+  it('defaults unflagged words to not searched', async () => {
+    const [clip] = await fixtureProvider.search('reviens', 'fr', page, session);
+    expect(clip.words.every((word) => word['searched?'] === false)).toBe(true);
+  });
+
+  it('leaves some urls to be resolved by id', async () => {
+    const clips = await fixtureProvider.search('be back', 'en', page, session);
+    const unresolved = clips.find((clip) => clip.url === null);
+    expect(unresolved?.id).toBe('fixture-2');
+    expect(await fixtureProvider.resolveVideoUrl('fixture-2', session)).toBe('/fixtures/fixture-2.mp4');
+    expect(await fixtureProvider.resolveVideoUrl('missing', session)).toBe('');
+  });
+
+  it('points every clip at media under public/', async () => {
+    for (const id of ['fixture-1', 'fixture-2', 'fixture-3']) {
+      const url = await fixtureProvider.resolveVideoUrl(id, session);
+      expect(existsSync(new URL(`../../../public${url}`, import.meta.url))).toBe(true);
+    }
+  });
+});
@@ -0,0 +1,62 @@
+import type { Clip, ClipMovie } from '@/lib/clip';
+import type { ClipProvider } from './types';
+import clips from './fixtures/clips.json';
+
+interface FixtureWord {
+  start: number;
+  end: number;
+  text: string;
+  index: number;
+  'searched?'?: boolean;
+}
+
+interface FixtureClip {
+  id: string;
+  language: string;
+  url?: string;
+  text: string;
+  start: number;
+  end: number;
+  words: FixtureWord[];
+  movie?: ClipMovie;
+}
+
+const FIXTURE_CLIPS: FixtureClip[] = clips;
+
+function toClip(fixture: FixtureClip): Clip {
+  return {
+    id: fixture.id,
+    url: fixture.url ?? null,
+    text: fixture.text,
+    start: fixture.start,
+    end: fixture.end,
+    words: fixture.words.map((word) => ({ ...word, 'searched?': word['searched?'] ?? false })),
+    movie: fixture.movie,
+  };
+}
+
+// Offline provider backed by a static JSON corpus. Useful for local
+// development and tests where hitting playphrase.me is not an option.
+// Some fixtures deliberately omit `url` to exercise `resolveVideoUrl`.
+// The clips are short test-pattern videos served from public/fixtures/.
+export const fixtureProvider: ClipProvider = {
+  name: 'fixture',
+
+  async getSession() {
+    return { cookies: '', csrfToken: '' };
+  },
+
+  async search(phrase, language, { limit, skip }) {
+    const needle = phrase.toLowerCase();
+
+    return FIXTURE_CLIPS
+      .filter((clip) => clip.language === language && clip.text.toLowerCase().includes(needle))
+      .slice(skip, skip + limit)
+      .map(toClip);
+  },
+
+  async resolveVideoUrl(id) {
+    const clip = FIXTURE_CLIPS.find((c) => c.id === id);
+    return clip ? `/fixtures/${clip.id}.mp4` : '';
+  },
+};
@@ -0,0 +1,39 @@
+import { fixtureProvider } from './fixture';
+import { playphraseProvider } from './playphrase';
+import type { ClipProvider } from './types';
+
+export type { ClipProvider, ProviderSession, ResolveOptions, SearchOptions } from './types';
+
+export const DEFAULT_PROVIDER = 'playphrase';
+
+const PROVIDERS: Record<string, ClipProvider> = {
+  [playphraseProvider.name]: playphraseProvider,
+  [fixtureProvider.name]: fixtureProvider,
+};
+
+export function getProvider(name: string): ClipProvider | undefined {
+  return Object.prototype.hasOwnProperty.call(PROVIDERS, name) ? PROVIDERS[name] : undefined;
+}
+
+// Parses a comma-separated `provider` query value (e.g. "playphrase,fixture").
+// Returns the matching providers in order, or the list of unknown names.
+export function resolveProviders(param: string | null): { providers: ClipProvider[]; unknown: string[] } {
+  const names = (param || DEFAULT_PROVIDER)
+    .split(',')
+    .map((name) => name.trim())
+    .filter(Boolean);
+
+  const providers: ClipProvider[] = [];
+  const unknown: string[] = [];
+
+  for (const name of new Set(names)) {
+    const provider = getProvider(name);
+    if (provider) {
+      providers.push(provider);
+    } else {
+      unknown.push(name);
+    }
+  }
+
+  return { providers, unknown };
+}
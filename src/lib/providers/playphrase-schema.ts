@@ -0,0 +1,186 @@
+import type { Clip, ClipMovie, Word } from '@/lib/clip';
+import {
+  describeType,
+  isRecord,
+  readFirstString,
+  readOptionalNumber,
+  readString,
+  UpstreamValidationError,
+  type ParseResult,
+  type ValidationIssue,
+} from '@/lib/validation';
+
+// Wrapper keys the search endpoint has been seen to use. The current API
+// returns `phrases`; the others are kept as fallbacks.
+const SEARCH_ENVELOPE_KEYS = ['phrases', 'results', 'data', 'items'] as const;
+
+// Field names the search results use for a direct video URL
+const CLIP_URL_KEYS = ['video-url', 'video_url', 'videoUrl'] as const;
+
+// Field names the video-view endpoint has been seen to use for the video URL
+const VIDEO_DETAILS_URL_KEYS = ['video_url', 'videoUrl', 'url', 'video', 'video_src', 'src'] as const;
+
+function parseWord(raw: unknown, position: number, path: string, issues: ValidationIssue[]): Word | null {
+  if (!isRecord(raw)) {
+    issues.push({ path, message: `Expected word object, got ${describeType(raw)}` });
+    return null;
+  }
+
+  const text = readString(raw, 'text', path, issues);
+  if (text === undefined) return null;
+
+  return {
+    text,
+    start: readOptionalNumber(raw, 'start', path, issues) ?? 0,
+    end: readOptionalNumber(raw, 'end', path, issues) ?? 0,
+    index: readOptionalNumber(raw, 'index', path, issues) ?? position,
+    score: readOptionalNumber(raw, 'score', path, issues),
+    'searched?': raw['searched?'] === true,
+  };
+}
+
+// Genre and rating field names seen across the info objects
+const GENRE_KEYS = ['genres', 'genre'] as const;
+const RATING_KEYS = ['rating', 'imdb_rating', 'imdbRating'] as const;
+
+// Genres arrive either as an array or a comma-separated string
+function readGenres(obj: Record<string, unknown>): string[] | undefined {
+  for (const key of GENRE_KEYS) {
+    const value = obj[key];
+    const genres = Array.isArray(value)
+      ? value.filter((genre): genre is string => typeof genre === 'string')
+      : typeof value === 'string' ? value.split(',') : [];
+    const cleaned = genres.map((genre) => genre.trim()).filter(Boolean);
+    if (cleaned.length > 0) return cleaned;
+  }
+  return undefined;
+}
+
+// Ratings are sometimes numeric strings like "8.9"
+function readRating(obj: Record<string, unknown>): number | undefined {
+  for (const key of RATING_KEYS) {
+    const value = typeof obj[key] === 'string' ? parseFloat(obj[key] as string) : obj[key];
+    if (typeof value === 'number' && Number.isFinite(value)) return value;
+  }
+  return undefined;
+}
+
+function parseMovie(raw: Record<string, unknown>, path: string, issues: ValidationIssue[]): ClipMovie | undefined {
+  // `video-info.info` is a free-form label like "Friends (1994) S01E01"
+  const videoInfo = raw['video-info'];
+  if (isRecord(videoInfo) && typeof videoInfo.info === 'string') {
+    const year = videoInfo.info.match(/\((\d{4})\)/);
+    const episode = videoInfo.info.match(/\bS(\d{1,2})E(\d{1,3})\b/i);
+    return {
+      title: videoInfo.info.replace(/\s*\(\d{4}\)/, '').replace(/\s*\bS\d{1,2}E\d{1,3}\b/i, '').trim(),
+      year: year ? parseInt(year[1], 10) : undefined,
+      episode: episode ? `S${episode[1].padStart(2, '0')}E${episode[2].padStart(2, '0')}` : undefined,
+      genres: readGenres(videoInfo),
+      rating: readRating(videoInfo),
+      imdbId: typeof videoInfo.imdb === 'string' ? videoInfo.imdb : undefined,
+    };
+  }
+
+  const movie = raw.movie;
+  if (isRecord(movie)) {
+    const title = readString(movie, 'title', `${path}.movie`, issues);
+    if (title === undefined) return undefined;
+    return {
+      title,
+      year: readOptionalNumber(movie, 'year', `${path}.movie`, issues),
+      episode: typeof movie.episode === 'string' ? movie.episode : undefined,
+      genres: readGenres(movie),
+      rating: readRating(movie),
+      imdbId: typeof movie.imdb === 'string' ? movie.imdb : undefined,
+    };
+  }
+
+  return undefined;
+}
+
+export function parseClip(raw: unknown, path: string, issues: ValidationIssue[]): Clip | null {
+  if (!isRecord(raw)) {
+    issues.push({ path, message: `Expected phrase object, got ${describeType(raw)}` });
+    return null;
+  }
+
+  const id = readString(raw, 'id', path, issues);
+  const text = readString(raw, 'text', path, issues);
+  if (id === undefined || text === undefined) return null;
+
+  const words: Word[] = [];
+  if (Array.isArray(raw.words)) {
+    raw.words.forEach((rawWord, i) => {
+      const word = parseWord(rawWord, i, `${path}.words[${i}]`, issues);
+      if (word) words.push(word);
+    });
+  } else if (raw.words !== undefined && raw.words !== null) {
+    issues.push({ path: `${path}.words`, message: `Expected array, got ${describeType(raw.words)}` });
+  }
+
+  return {
+    id,
+    url: readFirstString(raw, CLIP_URL_KEYS)?.value ?? null,
+    text,
+    start: readOptionalNumber(raw, 'start', path, issues) ?? 0,
+    end: readOptionalNumber(raw, 'end', path, issues) ?? 0,
+    words,
+    movie: parseMovie(raw, path, issues),
+  };
+}
+
+// Parses the body of /phrases/search into clips. Throws when the envelope is
+// unrecognizable; individual malformed phrases are dropped and reported in `issues`.
+export function parseSearchResponse(data: unknown): ParseResult<Clip[]> {
+  let shape: string | undefined;
+  let items: unknown[] | undefined;
+
+  if (Array.isArray(data)) {
+    shape = 'array';
+    items = data;
+  } else if (isRecord(data)) {
+    for (const key of SEARCH_ENVELOPE_KEYS) {
+      const value = data[key];
+      if (Array.isArray(value)) {
+        shape = key;
+        items = value;
+        break;
+      }
+    }
+  }
+
+  if (shape === undefined || items === undefined) {
+    const keys = isRecord(data) ? Object.keys(data).join(', ') || 'none' : describeType(data);
+    throw new UpstreamValidationError('Unrecognized search response shape', [
+      { path: '', message: `Expected an array or an object with one of ${SEARCH_ENVELOPE_KEYS.join(', ')}; got ${keys}` },
+    ]);
+  }
+
+  const issues: ValidationIssue[] = [];
+  const clips: Clip[] = [];
+  items.forEach((item, i) => {
+    const clip = parseClip(item, `${shape}[${i}]`, issues);
+    if (clip) clips.push(clip);
+  });
+
+  return { value: clips, shape, issues };
+}
+
+// Parses the body of /phrases/video-view into a video URL. `shape` records
+// which field the URL was found in.
+export function parseVideoDetails(data: unknown): ParseResult<string> {
+  if (!isRecord(data)) {
+    throw new UpstreamValidationError('Unrecognized video details response shape', [
+      { path: '', message: `Expected object, got ${describeType(data)}` },
+    ]);
+  }
+
+  const found = readFirstString(data, VIDEO_DETAILS_URL_KEYS);
+  if (!found) {
+    throw new UpstreamValidationError('Video details response has no video URL', [
+      { path: '', message: `Expected one of ${VIDEO_DETAILS_URL_KEYS.join(', ')}; got ${Object.keys(data).join(', ') || 'none'}` },
+    ]);
+  }
+
+  return { value: found.value, shape: found.key, issues: [] };
+}
@@ -0,0 +1,255 @@
+import { getConfig } from '@/lib/config';
+import { logger } from '@/lib/logger';
+import { getCircuitStatus, UpstreamHttpError, upstreamFetch } from '@/lib/upstream-fetch';
+import type { ProviderSession } from './types';
+
+export const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/26.0.1 Safari/605.1.15';
+
+interface StoredSession extends ProviderSession {
+  source: 'config' | 'homepage';
+  fetchedAt: number;
+  expiresAt: number;
+}
+
+// Shared circuit breaker name for every playphrase.me call
+export const PLAYPHRASE_UPSTREAM = 'playphrase';
+
+const KV_KEY = 'playphrase:session';
+const HOMEPAGE_TIMEOUT_MS = 8000;
+// How long credentials are trusted before we look for fresh ones.
+// A 401/403 from playphrase invalidates them sooner.
+const SESSION_TTL_MS = 6 * 60 * 60 * 1000;
+// Workers KV rejects expirationTtl values below 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+
+// Per-isolate cache; survives between requests served by the same Worker instance.
+// Without a SESSION_KV binding it is the only cache, so each isolate scrapes once.
+let memorySession: StoredSession | null = null;
+let lastRefresh: { at: number; reason: string; ok: boolean } | null = null;
+
+// Earliest expiry across the Set-Cookie headers, from Max-Age or Expires
+function getCookieExpiry(setCookieHeaders: string[], now: number): number | undefined {
+  let earliest: number | undefined;
+
+  for (const header of setCookieHeaders) {
+    for (const attribute of header.split(';').slice(1)) {
+      const [rawName, ...rest] = attribute.split('=');
+      const name = rawName.trim().toLowerCase();
+      const value = rest.join('=').trim();
+
+      let expiresAt: number | undefined;
+      if (name === 'max-age' && /^-?\d+$/.test(value)) {
+        expiresAt = now + parseInt(value, 10) * 1000;
+      } else if (name === 'expires') {
+        const parsed = Date.parse(value);
+        expiresAt = Number.isNaN(parsed) ? undefined : parsed;
+      }
+
+      if (expiresAt !== undefined && (earliest === undefined || expiresAt < earliest)) {
+        earliest = expiresAt;
+      }
+    }
+  }
+
+  return earliest;
+}
+
+async function scrapeHomepage(): Promise<StoredSession> {
+  // Fetch the homepage to get cookies and CSRF token
+  const response = await upstreamFetch('https://www.playphrase.me/', {
+    method: 'GET',
+    headers: {
+      'User-Agent': USER_AGENT,
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.9',
+      'Referer': 'https://www.playphrase.me/',
+    },
+  }, { upstream: PLAYPHRASE_UPSTREAM, timeoutMs: HOMEPAGE_TIMEOUT_MS });
+
+  if (!response.ok) {
+    throw new UpstreamHttpError(`Homepage request failed: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  // Parse all Set-Cookie headers properly
+  let setCookieHeaders: string[] = [];
+  try {
+    if (typeof response.headers.getSetCookie === 'function') {
+      setCookieHeaders = response.headers.getSetCookie();
+    } else {
+      // Fallback: try to get set-cookie header and parse it
+      const setCookieHeader = response.headers.get('set-cookie');
+      if (setCookieHeader) {
+        setCookieHeaders = [setCookieHeader];
+      }
+    }
+  } catch {
+    const setCookieHeader = response.headers.get('set-cookie');
+    if (setCookieHeader) {
+      setCookieHeaders = [setCookieHeader];
+    }
+  }
+
+  const cookies = setCookieHeaders
+    .map(cookie => {
+      const nameValue = cookie.split(';')[0].trim();
+      return nameValue;
+    })
+    .filter(Boolean)
+    .join('; ');
+
+  logger.info('Fetched cookies from homepage', { cookieCount: setCookieHeaders.length });
+
+  // Try to extract CSRF token from HTML
+  const html = await response.text();
+  let csrfToken = '';
+
+  // Try multiple patterns to find CSRF token
+  const patterns = [
+    /name=["']csrf[_-]?token["'][^>]*value=["']([^"']+)/i,
+    /csrf[_-]?token['":\s]*['"]?([a-zA-Z0-9+\/=]+)/i,
+    /["']_token["']:\s*["']([^"']+)/i,
+    /meta[^>]*name=["']csrf[_-]?token["'][^>]*content=["']([^"']+)/i,
+  ];
+
+  for (const pattern of patterns) {
+    const match = html.match(pattern);
+    if (match && match[1]) {
+      csrfToken = match[1];
+      logger.debug('Found CSRF token in homepage HTML', { pattern: pattern.source });
+      break;
+    }
+  }
+
+  if (!csrfToken) {
+    // GET searches have been seen to work with cookies alone
+    logger.info('CSRF token not found in homepage HTML, continuing with cookies only');
+  }
+
+  const now = Date.now();
+  const cookieExpiry = getCookieExpiry(setCookieHeaders, now);
+  return {
+    cookies,
+    csrfToken,
+    source: 'homepage',
+    fetchedAt: now,
+    expiresAt: Math.min(now + SESSION_TTL_MS, cookieExpiry ?? Infinity),
+  };
+}
+
+async function readStoredSession(store: KVNamespace | undefined): Promise<StoredSession | null> {
+  if (!store) return null;
+  return store.get<StoredSession>(KV_KEY, 'json').catch(() => null);
+}
+
+async function saveSession(session: StoredSession): Promise<void> {
+  memorySession = session;
+
+  const store = getConfig().sessionStore;
+  if (!store) return;
+
+  const ttlSeconds = Math.max(MIN_KV_TTL_SECONDS, Math.ceil((session.expiresAt - Date.now()) / 1000));
+  try {
+    await store.put(KV_KEY, JSON.stringify(session), { expirationTtl: ttlSeconds });
+  } catch (error) {
+    logger.error('Failed to persist playphrase session to KV', { error });
+  }
+}
+
+async function refreshSession(reason: string): Promise<StoredSession> {
+  logger.info('Refreshing playphrase session', { reason });
+  try {
+    const session = await scrapeHomepage();
+    await saveSession(session);
+    lastRefresh = { at: Date.now(), reason, ok: true };
+    return session;
+  } catch (error) {
+    lastRefresh = { at: Date.now(), reason, ok: false };
+    throw error;
+  }
+}
+
+// Returns cached credentials when still valid, falling back to KV (if bound), then the
+// configured secrets, then a fresh homepage scrape.
+export async function getPlayphraseSession(): Promise<ProviderSession> {
+  const now = Date.now();
+
+  if (memorySession && memorySession.expiresAt > now) {
+    return memorySession;
+  }
+
+  const config = getConfig();
+  const stored = await readStoredSession(config.sessionStore);
+  if (stored && stored.expiresAt > now) {
+    memorySession = stored;
+    return stored;
+  }
+
+  if (config.playphraseCookies && config.playphraseCsrfToken) {
+    logger.info('Using configured secrets for playphrase auth');
+    // Configured credentials aren't written to KV; they're already available to every isolate
+    memorySession = {
+      cookies: config.playphraseCookies,
+      csrfToken: config.playphraseCsrfToken,
+      source: 'config',
+      fetchedAt: now,
+      expiresAt: now + SESSION_TTL_MS,
+    };
+    return memorySession;
+  }
+
+  try {
+    return await refreshSession('no cached session');
+  } catch (error) {
+    // Fall back to an anonymous search rather than failing outright
+    logger.error('Failed to fetch playphrase session', { error });
+    return { cookies: '', csrfToken: '' };
+  }
+}
+
+// Called after playphrase rejects `rejected` with 401/403. If another call
+// has already replaced those credentials the newer ones are reused, so a burst
+// of rejected requests only triggers one scrape.
+export async function refreshPlayphraseSession(rejected: ProviderSession): Promise<ProviderSession> {
+  const current = memorySession;
+  if (
+    current &&
+    current.expiresAt > Date.now() &&
+    (current.cookies !== rejected.cookies || current.csrfToken !== rejected.csrfToken)
+  ) {
+    return current;
+  }
+
+  return refreshSession('credentials rejected');
+}
+
+function describeSession(session: StoredSession | null, now: number) {
+  if (!session) return null;
+  return {
+    source: session.source,
+    fetchedAt: new Date(session.fetchedAt).toISOString(),
+    expiresAt: new Date(session.expiresAt).toISOString(),
+    expired: session.expiresAt <= now,
+    hasCookies: !!session.cookies,
+    hasCsrfToken: !!session.csrfToken,
+  };
+}
+
+// Diagnostic snapshot for /api/session/status. Never includes credential values.
+export async function getPlayphraseSessionStatus() {
+  const now = Date.now();
+  const config = getConfig();
+  const stored = await readStoredSession(config.sessionStore);
+
+  return {
+    provider: 'playphrase',
+    circuit: getCircuitStatus(PLAYPHRASE_UPSTREAM),
+    configuredCredentials: !!(config.playphraseCookies && config.playphraseCsrfToken),
+    memory: describeSession(memorySession, now),
+    kv: describeSession(stored, now),
+    lastRefresh: lastRefresh && {
+      at: new Date(lastRefresh.at).toISOString(),
+      reason: lastRefresh.reason,
+      ok: lastRefresh.ok,
+    },
+  };
+}
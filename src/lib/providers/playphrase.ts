@@ -0,0 +1,168 @@
+import type { Clip } from '@/lib/clip';
+import { formatQuery } from '@/lib/languages';
+import { logger } from '@/lib/logger';
+import { UpstreamAuthError, UpstreamHttpError, upstreamFetch } from '@/lib/upstream-fetch';
+import { parseJson } from '@/lib/validation';
+import { parseSearchResponse, parseVideoDetails } from './playphrase-schema';
+import { getPlayphraseSession, PLAYPHRASE_UPSTREAM, refreshPlayphraseSession, USER_AGENT } from './playphrase-session';
+import type { ClipProvider, ProviderSession, SearchOptions } from './types';
+
+const SEARCH_TIMEOUT_MS = 8000;
+// Several lookups run per request, so each gets a tighter budget
+const VIDEO_DETAILS_TIMEOUT_MS = 5000;
+
+// English has its own index; every other language is served by api-langs
+const DEFAULT_SEARCH_ENDPOINT = 'https://www.playphrase.me/api-langs/v1/phrases/search';
+const SEARCH_ENDPOINTS: Record<string, string> = {
+  en: 'https://www.playphrase.me/api/v1/phrases/search',
+};
+
+async function searchPhrases(q: string, language: string, { limit, skip, exact = true }: SearchOptions, cookies?: string, csrfToken?: string): Promise<Clip[]> {
+  const searchUrl = new URL(SEARCH_ENDPOINTS[language] ?? DEFAULT_SEARCH_ENDPOINT);
+  // Quoting and normalization follow the language's query rules
+  searchUrl.searchParams.set('q', formatQuery(q, language, { exact }));
+  searchUrl.searchParams.set('limit', limit.toString());
+  searchUrl.searchParams.set('language', language);
+  searchUrl.searchParams.set('platform', 'desktop safari');
+  searchUrl.searchParams.set('skip', skip.toString());
+
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    'Accept': 'application/json',
+    'Authorization': 'Token',
+    'Sec-Fetch-Site': 'same-origin',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'Accept-Encoding': 'gzip, deflate, br',
+    'Sec-Fetch-Mode': 'cors',
+    'User-Agent': USER_AGENT,
+    'Referer': 'https://www.playphrase.me/',
+    'Sec-Fetch-Dest': 'empty',
+  };
+
+  if (cookies) {
+    headers['Cookie'] = cookies;
+  }
+  if (csrfToken) {
+    headers['X-Csrf-Token'] = csrfToken;
+  }
+
+  // Cookie and X-Csrf-Token are redacted by the logger
+  logger.debug('Search API request', { url: searchUrl.toString(), headers });
+
+  const response = await upstreamFetch(searchUrl.toString(), {
+    method: 'GET',
+    headers,
+    cf: {
+      cacheTtl: 3600,
+      cacheEverything: false,
+    },
+  }, { upstream: PLAYPHRASE_UPSTREAM, timeoutMs: SEARCH_TIMEOUT_MS });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new UpstreamAuthError(`Search API rejected session: ${response.status}`, response.status);
+  }
+
+  if (!response.ok) {
+    // The body is only logged; it never reaches the client
+    const errorText = await response.text().catch(() => response.statusText);
+    logger.debug('Search API error response', { status: response.status, body: errorText.substring(0, 500) });
+    throw new UpstreamHttpError(`Search API failed: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  const responseText = await response.text();
+  if (logger.isDebugEnabled()) {
+    logger.debug('Search API raw response', { body: responseText.substring(0, 500) });
+  }
+
+  const { value: clips, shape, issues } = parseSearchResponse(parseJson(responseText, 'Search API response'));
+  logger.info('Search API returned phrases', { count: clips.length, shape });
+  if (issues.length > 0) {
+    logger.warn('Search API response had invalid phrases', { issues });
+  }
+
+  return clips;
+}
+
+async function getVideoDetails(videoId: string, cookies?: string, csrfToken?: string, fresh: boolean = false): Promise<string> {
+  const videoUrl = new URL('https://www.playphrase.me/api/v1/phrases/video-view');
+  videoUrl.searchParams.set('video-id', videoId);
+  videoUrl.searchParams.set('platform', 'desktop safari');
+
+  const headers: Record<string, string> = {
+    'Accept': 'application/json',
+    'Accept-Language': 'en-US,en;q=0.9',
+    'User-Agent': USER_AGENT,
+    'Referer': 'https://www.playphrase.me/',
+    'Origin': 'https://www.playphrase.me',
+    'Content-Type': 'application/json',
+    'Authorization': 'Token',
+    'Sec-Fetch-Site': 'same-origin',
+    'Sec-Fetch-Mode': 'cors',
+    'Sec-Fetch-Dest': 'empty',
+  };
+
+  if (cookies) {
+    headers['Cookie'] = cookies;
+  }
+  if (csrfToken) {
+    headers['X-Csrf-Token'] = csrfToken;
+  }
+
+  const response = await upstreamFetch(videoUrl.toString(), {
+    method: 'GET',
+    headers,
+    // A fresh lookup replaces a URL that has expired, so it must not come from the cache
+    cf: {
+      cacheTtl: fresh ? 0 : 3600,
+      cacheEverything: false,
+    },
+  }, { upstream: PLAYPHRASE_UPSTREAM, timeoutMs: VIDEO_DETAILS_TIMEOUT_MS });
+
+  if (response.status === 401 || response.status === 403) {
+    throw new UpstreamAuthError(`Video API rejected session: ${response.status}`, response.status);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text().catch(() => response.statusText);
+    logger.debug('Video API error response', { videoId, status: response.status, body: errorText.substring(0, 500) });
+    throw new UpstreamHttpError(`Video API failed: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  const responseText = await response.text();
+  if (logger.isDebugEnabled()) {
+    logger.debug('Video details API raw response', { videoId, body: responseText.substring(0, 500) });
+  }
+
+  const { value: url, shape } = parseVideoDetails(parseJson(responseText, 'Video details response'));
+  logger.debug('Found video URL in video details', { videoId, field: shape });
+  return url;
+}
+
+// Runs an upstream call, re-scraping the session and retrying once if
+// playphrase rejects the credentials (e.g. an expired ring-session cookie)
+async function withSessionRetry<T>(session: ProviderSession, call: (session: ProviderSession) => Promise<T>): Promise<T> {
+  try {
+    return await call(session);
+  } catch (error) {
+    if (!(error instanceof UpstreamAuthError)) {
+      throw error;
+    }
+    logger.warn('Playphrase rejected session, refreshing and retrying once', { status: error.status, message: error.message });
+    const freshSession = await refreshPlayphraseSession(session);
+    return call(freshSession);
+  }
+}
+
+export const playphraseProvider: ClipProvider = {
+  name: 'playphrase',
+
+  getSession: getPlayphraseSession,
+
+  search(phrase, language, options, session) {
+    return withSessionRetry(session, (s) => searchPhrases(phrase, language, options, s.cookies, s.csrfToken));
+  },
+
+  resolveVideoUrl(id, session, { fresh = false } = {}) {
+    return withSessionRetry(session, (s) => getVideoDetails(id, s.cookies, s.csrfToken, fresh));
+  },
+};
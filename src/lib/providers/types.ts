@@ -0,0 +1,28 @@
+import type { Clip } from '@/lib/clip';
+
+// Auth/session state a provider needs for its upstream calls.
+// Providers that don't need auth can return empty strings.
+export interface ProviderSession {
+  cookies: string;
+  csrfToken: string;
+}
+
+export interface SearchOptions {
+  limit: number;
+  skip: number;
+  // False loosens the match, e.g. no quotes around an English phrase
+  exact?: boolean;
+}
+
+export interface ResolveOptions {
+  // Skip any cached lookup, e.g. because the URL it returned has expired
+  fresh?: boolean;
+}
+
+export interface ClipProvider {
+  name: string;
+  getSession(): Promise<ProviderSession>;
+  // Clips with a null `url` are passed by id to `resolveVideoUrl`
+  search(phrase: string, language: string, options: SearchOptions, session: ProviderSession): Promise<Clip[]>;
+  resolveVideoUrl(id: string, session: ProviderSession, options?: ResolveOptions): Promise<string>;
+}
@@ -0,0 +1,171 @@
+import { ApiError } from '@/lib/api-error';
+import type { AppConfig, RateLimitConfig } from '@/lib/config';
+import { logger } from '@/lib/logger';
+
+// Per-client token buckets. The store is pluggable: an in-memory Map for
+// local development and single-isolate tests, KV for a shared (eventually
+// consistent) limit in production. A Durable Object can implement the same
+// `RateLimitStore` interface when strict global limits are needed.
+
+export interface BucketState {
+  tokens: number;
+  updatedAt: number;
+}
+
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | null>;
+  set(key: string, state: BucketState, ttlSeconds: number): Promise<void>;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until a token is available again; 0 when allowed
+  retryAfterSeconds: number;
+}
+
+// Workers KV rejects expirationTtl values below 60 seconds
+const MIN_KV_TTL_SECONDS = 60;
+
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, { state: BucketState; expiresAt: number }>();
+
+  return {
+    async get(key) {
+      const entry = buckets.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        buckets.delete(key);
+        return null;
+      }
+      return entry.state;
+    },
+
+    async set(key, state, ttlSeconds) {
+      buckets.set(key, { state, expiresAt: Date.now() + ttlSeconds * 1000 });
+    },
+  };
+}
+
+export function createKvStore(kv: KVNamespace): RateLimitStore {
+  return {
+    get(key) {
+      return kv.get<BucketState>(`ratelimit:${key}`, 'json');
+    },
+
+    async set(key, state, ttlSeconds) {
+      await kv.put(`ratelimit:${key}`, JSON.stringify(state), {
+        expirationTtl: Math.max(MIN_KV_TTL_SECONDS, ttlSeconds),
+      });
+    },
+  };
+}
+
+// Takes `cost` tokens from `key`'s bucket, refilling it for the time since it was last used
+export async function consumeToken(
+  store: RateLimitStore,
+  key: string,
+  { capacity, refillPerMinute }: Pick<RateLimitConfig, 'capacity' | 'refillPerMinute'>,
+  now: number = Date.now(),
+  cost: number = 1
+): Promise<RateLimitResult> {
+  const refillPerSecond = refillPerMinute / 60;
+  const previous = await store.get(key);
+
+  const elapsedSeconds = previous ? Math.max(0, now - previous.updatedAt) / 1000 : 0;
+  let tokens = previous ? Math.min(capacity, previous.tokens + elapsedSeconds * refillPerSecond) : capacity;
+
+  const allowed = tokens >= cost;
+  if (allowed) {
+    tokens -= cost;
+  }
+
+  // Once a bucket would be full again it carries no information, so let it expire
+  const secondsUntilFull = Math.ceil((capacity - tokens) / refillPerSecond);
+  await store.set(key, { tokens, updatedAt: now }, Math.max(1, secondsUntilFull));
+
+  return {
+    allowed,
+    limit: capacity,
+    remaining: Math.floor(tokens),
+    retryAfterSeconds: allowed ? 0 : Math.ceil((cost - tokens) / refillPerSecond),
+  };
+}
+
+// Per-isolate fallback when no RATE_LIMIT_KV binding is configured
+const memoryStore = createMemoryStore();
+
+// Only Cloudflare's header: X-Forwarded-For is client-controlled, so trusting
+// it would give every spoofed value a fresh bucket. Requests without it (e.g.
+// local dev) share one 'unknown' bucket.
+export function getClientIp(request: Request): string {
+  return request.headers.get('CF-Connecting-IP') ?? 'unknown';
+}
+
+// Compares without short-circuiting so the response time doesn't leak how
+// much of a key matched
+function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+export type ApiKeyCheck = 'none' | 'valid' | 'invalid';
+
+export function checkApiKey(request: Request, config: AppConfig): ApiKeyCheck {
+  const key = request.headers.get('X-Api-Key');
+  if (!key) return 'none';
+  return config.apiKeys.some((allowed) => timingSafeEqual(allowed, key)) ? 'valid' : 'invalid';
+}
+
+// Gate for operator-only routes: an allowlisted X-Api-Key is required
+export function requireApiKey(request: Request, config: AppConfig): void {
+  const apiKey = checkApiKey(request, config);
+  if (apiKey === 'invalid') {
+    throw new ApiError('INVALID_API_KEY', 'The X-Api-Key header does not match a known key');
+  }
+  if (apiKey === 'none') {
+    throw new ApiError('INVALID_API_KEY', 'This endpoint requires an X-Api-Key header');
+  }
+}
+
+export async function checkRateLimit(request: Request, config: AppConfig, cost: number = 1): Promise<RateLimitResult> {
+  const { rateLimit } = config;
+  if (rateLimit.capacity === 0) {
+    return { allowed: true, limit: 0, remaining: 0, retryAfterSeconds: 0 };
+  }
+
+  const store = rateLimit.store ? createKvStore(rateLimit.store) : memoryStore;
+  return consumeToken(store, `ip:${getClientIp(request)}`, rateLimit, Date.now(), cost);
+}
+
+// Gate shared by the public API routes: an allowlisted X-Api-Key skips the
+// per-IP limit, an unknown one is rejected, and everyone else spends `cost`
+// tokens (one per search the request runs).
+export async function enforceRateLimit(request: Request, config: AppConfig, cost: number = 1): Promise<void> {
+  const apiKey = checkApiKey(request, config);
+  if (apiKey === 'invalid') {
+    throw new ApiError('INVALID_API_KEY', 'The X-Api-Key header does not match a known key');
+  }
+  if (apiKey === 'valid') return;
+
+  if (config.rateLimit.capacity > 0 && cost > config.rateLimit.capacity) {
+    throw new ApiError('RATE_LIMITED', `Requests running more than ${config.rateLimit.capacity} searches need an X-Api-Key`);
+  }
+
+  const rateLimit = await checkRateLimit(request, config, cost);
+  if (!rateLimit.allowed) {
+    logger.warn('Rate limit exceeded', { retryAfterSeconds: rateLimit.retryAfterSeconds });
+    throw new ApiError('RATE_LIMITED', 'Too many requests, slow down', {
+      retryAfterSeconds: rateLimit.retryAfterSeconds,
+      headers: {
+        'RateLimit-Limit': String(rateLimit.limit),
+        'RateLimit-Remaining': String(rateLimit.remaining),
+      },
+    });
+  }
+}
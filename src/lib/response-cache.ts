@@ -0,0 +1,121 @@
+import { getCloudflareContext } from '@opennextjs/cloudflare';
+import { logger } from '@/lib/logger';
+
+// Caches normalized /api/videos bodies in the Workers Cache API, so a repeat
+// lookup skips the upstream search and video-view calls entirely. The Cache
+// API is per data center and free; outside workerd (plain `next dev`) it is
+// missing and every lookup is a miss.
+
+export interface VideosCacheKey {
+  providers: string[];
+  phrase: string;
+  language: string;
+  limit: number;
+  cursor: number;
+  // Padding of tight-mode spans; null when tight mode is off
+  tightPadding: number | null;
+  filter: string[];
+  exclude: string[];
+  // Phrase variant pinned by the cursor; null when the search may fall back
+  variant: number | null;
+}
+
+export interface CachedBody {
+  body: string;
+  etag: string;
+}
+
+// Synthetic origin for cache keys; never fetched
+const CACHE_KEY_ORIGIN = 'https://videos-cache.phrase-to-clip.internal';
+
+// workerd's `caches.default`; the DOM CacheStorage typings shadow the Workers ones
+interface WorkersCacheStorage {
+  default?: Cache;
+}
+
+function getCache(): Cache | undefined {
+  return typeof caches !== 'undefined' ? (caches as unknown as WorkersCacheStorage).default : undefined;
+}
+
+// Case and whitespace don't change what the upstream search matches
+export function normalizeCachePhrase(phrase: string): string {
+  return phrase.trim().replace(/\s+/g, ' ').toLowerCase();
+}
+
+function toCacheUrl(key: VideosCacheKey): string {
+  const url = new URL('/api/videos', CACHE_KEY_ORIGIN);
+  url.searchParams.set('provider', key.providers.join(','));
+  url.searchParams.set('phrase', normalizeCachePhrase(key.phrase));
+  url.searchParams.set('language', key.language.toLowerCase());
+  url.searchParams.set('limit', String(key.limit));
+  url.searchParams.set('cursor', String(key.cursor));
+  if (key.variant !== null) {
+    url.searchParams.set('variant', String(key.variant));
+  }
+  if (key.tightPadding !== null) {
+    url.searchParams.set('tight', String(key.tightPadding));
+  }
+  // Term order doesn't change the result
+  if (key.filter.length > 0) {
+    url.searchParams.set('filter', [...key.filter].sort().join(','));
+  }
+  if (key.exclude.length > 0) {
+    url.searchParams.set('exclude', [...key.exclude].sort().join(','));
+  }
+  return url.toString();
+}
+
+export async function computeEtag(body: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(body));
+  const hex = Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('');
+  return `"${hex}"`;
+}
+
+// True when the request's If-None-Match already covers `etag`
+export function matchesEtag(ifNoneMatch: string | null, etag: string): boolean {
+  if (!ifNoneMatch) return false;
+  return ifNoneMatch
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+}
+
+export async function getCachedVideos(key: VideosCacheKey): Promise<CachedBody | null> {
+  const cache = getCache();
+  if (!cache) return null;
+
+  try {
+    const cached = await cache.match(toCacheUrl(key));
+    if (!cached) return null;
+
+    const body = await cached.text();
+    return { body, etag: cached.headers.get('ETag') ?? await computeEtag(body) };
+  } catch (error) {
+    logger.error('Failed to read videos cache', { error });
+    return null;
+  }
+}
+
+// Stores the body without blocking the response when a waitUntil is available
+export function putCachedVideos(key: VideosCacheKey, cached: CachedBody, ttlSeconds: number): void {
+  const cache = getCache();
+  if (!cache || ttlSeconds <= 0) return;
+
+  const response = new Response(cached.body, {
+    headers: {
+      'Content-Type': 'application/json',
+      'Cache-Control': `public, max-age=${ttlSeconds}`,
+      'ETag': cached.etag,
+    },
+  });
+
+  const write = cache.put(toCacheUrl(key), response).catch((error) => {
+    logger.error('Failed to write videos cache', { error });
+  });
+
+  try {
+    getCloudflareContext().ctx.waitUntil(write);
+  } catch {
+    // No execution context; the write still completes on its own
+  }
+}
@@ -0,0 +1,115 @@
+import { clipKey, type Subtitle } from '@/lib/clip';
+
+// Spaced-repetition queue of lines the learner got wrong in dictation, kept
+// in localStorage. Each line sits in a Leitner box: a miss sends it back to
+// the first box, a correct answer moves it up one and pushes the next review
+// further out, and clearing the last box retires it. Client-only; every
+// function is a no-op when storage is unavailable (SSR, private mode).
+
+export interface ReviewItem {
+  // The clip's proxy path (see `clipKey`), which identifies it across searches
+  id: string;
+  language: string;
+  // The video URL when the line was last answered; it may have expired, so
+  // play from `subtitle.proxy` when there is one
+  video: string;
+  subtitle: Subtitle;
+  box: number;
+  dueAt: number;
+  addedAt: number;
+  // Times the line was answered wrong
+  lapses: number;
+}
+
+export type ReviewClip = Pick<ReviewItem, 'language' | 'video' | 'subtitle'>;
+
+const STORAGE_KEY = 'phrase-to-clip:review-queue';
+const MAX_REVIEW_ITEMS = 500;
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// How long a line waits in each box before it's due again
+const BOX_INTERVALS_MS = [10 * MINUTE_MS, DAY_MS, 3 * DAY_MS, 7 * DAY_MS, 21 * DAY_MS];
+// How many boxes a line has to clear before it leaves the queue
+export const REVIEW_BOX_COUNT = BOX_INTERVALS_MS.length;
+
+function isReviewItem(value: unknown): value is ReviewItem {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  const subtitle = entry.subtitle as Record<string, unknown> | null;
+  return typeof entry.id === 'string'
+    && typeof entry.language === 'string'
+    && typeof entry.video === 'string'
+    && typeof subtitle === 'object' && subtitle !== null
+    && typeof subtitle.text === 'string' && Array.isArray(subtitle.words)
+    && typeof entry.box === 'number'
+    && typeof entry.dueAt === 'number'
+    && typeof entry.addedAt === 'number'
+    && typeof entry.lapses === 'number';
+}
+
+export function loadReviewQueue(): ReviewItem[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isReviewItem) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeReviewQueue(items: ReviewItem[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(items));
+  } catch {
+    // Quota exceeded or storage disabled; the queue is best-effort
+  }
+}
+
+// Due lines, the longest overdue first
+export function getDueItems(items: ReviewItem[], now: number = Date.now()): ReviewItem[] {
+  return items.filter((item) => item.dueAt <= now).sort((a, b) => a.dueAt - b.dueAt);
+}
+
+// Records a dictation attempt. A miss queues the line (or sends it back to
+// the first box); a correct answer only matters for lines already queued.
+// Returns the updated queue.
+export function recordDictation(clip: ReviewClip, correct: boolean): ReviewItem[] {
+  const now = Date.now();
+  const items = loadReviewQueue();
+  const id = clipKey(clip.video, clip.subtitle);
+  // Lines queued before ids were proxy paths are still keyed by their URL
+  const existing = items.find((item) => item.id === id || item.id === clip.video);
+  const others = items.filter((item) => item !== existing);
+
+  let updated: ReviewItem[];
+  if (!correct) {
+    updated = [
+      {
+        id,
+        language: clip.language,
+        video: clip.video,
+        subtitle: clip.subtitle,
+        box: 0,
+        dueAt: now + BOX_INTERVALS_MS[0],
+        addedAt: existing?.addedAt ?? now,
+        lapses: (existing?.lapses ?? 0) + 1,
+      },
+      ...others,
+    ].slice(0, MAX_REVIEW_ITEMS);
+  } else if (!existing) {
+    return items;
+  } else if (existing.box + 1 >= BOX_INTERVALS_MS.length) {
+    updated = others;
+  } else {
+    const box = existing.box + 1;
+    updated = [...others, { ...existing, id, box, dueAt: now + BOX_INTERVALS_MS[box] }];
+  }
+
+  storeReviewQueue(updated);
+  return updated;
+}
+
+export function removeReviewItem(id: string): ReviewItem[] {
+  const items = loadReviewQueue().filter((item) => item.id !== id);
+  storeReviewQueue(items);
+  return items;
+}
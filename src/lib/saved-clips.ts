@@ -0,0 +1,38 @@
+import type { Subtitle } from '@/lib/clip';
+
+// Saved clip types shared by the collection routes and the client
+
+// Every user has this collection, so the player can save with a single click
+export const FAVORITES_ID = 'favorites';
+
+export interface SavedClip {
+  id: string;
+  // The search the clip was found with
+  phrase: string;
+  language: string;
+  video: string;
+  subtitle: Subtitle;
+  savedAt: string;
+}
+
+// What a client sends to save a clip
+export type ClipToSave = Omit<SavedClip, 'id' | 'savedAt'>;
+
+export interface Collection {
+  id: string;
+  name: string;
+  createdAt: string;
+  clips: SavedClip[];
+}
+
+export interface CollectionsDocument {
+  collections: Collection[];
+}
+
+// What /api/collections/export returns and /api/collections/import accepts.
+// Ids are dropped on export since they only mean something to one user.
+export interface CollectionsExport {
+  version: 1;
+  exportedAt: string;
+  collections: { name: string; clips: Omit<SavedClip, 'id'>[] }[];
+}
@@ -0,0 +1,59 @@
+// Recent searches, kept in localStorage so they survive reloads. Client-only;
+// every function is a no-op when storage is unavailable (SSR, private mode).
+
+export interface RecentSearch {
+  phrase: string;
+  language: string;
+  searchedAt: number;
+}
+
+const STORAGE_KEY = 'phrase-to-clip:recent-searches';
+const MAX_RECENT_SEARCHES = 10;
+
+function isRecentSearch(value: unknown): value is RecentSearch {
+  if (typeof value !== 'object' || value === null) return false;
+  const entry = value as Record<string, unknown>;
+  return typeof entry.phrase === 'string' && typeof entry.language === 'string' && typeof entry.searchedAt === 'number';
+}
+
+export function loadRecentSearches(): RecentSearch[] {
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored.filter(isRecentSearch) : [];
+  } catch {
+    return [];
+  }
+}
+
+function storeRecentSearches(searches: RecentSearch[]) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(searches));
+  } catch {
+    // Quota exceeded or storage disabled; history is best-effort
+  }
+}
+
+// Moves the search to the front, dropping older entries for the same phrase
+// and language. Returns the updated list.
+export function saveRecentSearch(phrase: string, language: string): RecentSearch[] {
+  const key = phrase.trim().toLowerCase();
+  const searches = [
+    { phrase: phrase.trim(), language, searchedAt: Date.now() },
+    ...loadRecentSearches().filter((entry) => entry.language !== language || entry.phrase.toLowerCase() !== key),
+  ].slice(0, MAX_RECENT_SEARCHES);
+
+  storeRecentSearches(searches);
+  return searches;
+}
+
+export function removeRecentSearch(search: RecentSearch): RecentSearch[] {
+  const searches = loadRecentSearches().filter(
+    (entry) => entry.language !== search.language || entry.phrase !== search.phrase
+  );
+  storeRecentSearches(searches);
+  return searches;
+}
+
+export function clearRecentSearches() {
+  storeRecentSearches([]);
+}
@@ -0,0 +1,86 @@
+import { DEFAULT_TIGHT_PADDING_MS, MAX_TIGHT_PADDING_MS } from '@/lib/clip';
+import { DEFAULT_LANGUAGE, getLanguageName } from '@/lib/languages';
+
+// Links for sharing a phrase outside the app: the compact `/embed` player,
+// the iframe markup for it, and the titles used in link previews.
+// Pure functions, safe to import on the client.
+
+export type EmbedTheme = 'dark' | 'light';
+
+export interface EmbedOptions {
+  tight?: boolean;
+  padding?: number;
+  // Start playing without a click; browsers only allow that when muted
+  autoplay?: boolean;
+  muted?: boolean;
+  theme?: EmbedTheme;
+}
+
+// A phrase link, as found in a search page or embed URL
+export interface SharedPhrase {
+  phrase: string;
+  language: string;
+  tight: boolean;
+  padding: number;
+}
+
+export const EMBED_THEMES: EmbedTheme[] = ['dark', 'light'];
+// Default iframe size, 16:9
+export const EMBED_WIDTH = 640;
+export const EMBED_HEIGHT = 360;
+
+export function parsePadding(value: string | null): number {
+  const padding = Number.parseInt(value ?? '', 10);
+  return Number.isNaN(padding) ? DEFAULT_TIGHT_PADDING_MS : Math.min(MAX_TIGHT_PADDING_MS, Math.max(0, padding));
+}
+
+export function embedPath(phrase: string, language: string, options: EmbedOptions = {}): string {
+  const { tight = false, padding = DEFAULT_TIGHT_PADDING_MS, autoplay = false, muted = false, theme = 'dark' } = options;
+  const params = new URLSearchParams({ phrase, language });
+  if (tight) {
+    params.set('tight', '1');
+    if (padding !== DEFAULT_TIGHT_PADDING_MS) {
+      params.set('padding', String(padding));
+    }
+  }
+  if (autoplay) {
+    params.set('autoplay', '1');
+  }
+  if (muted) {
+    params.set('muted', '1');
+  }
+  if (theme !== 'dark') {
+    params.set('theme', theme);
+  }
+  return `/embed?${params}`;
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
+
+// The iframe markup for an absolute embed URL
+export function embedHtml(src: string, title: string, width: number = EMBED_WIDTH, height: number = EMBED_HEIGHT): string {
+  return `<iframe src="${escapeAttribute(src)}" title="${escapeAttribute(title)}" width="${width}" height="${height}" `
+    + 'frameborder="0" allow="autoplay; fullscreen" allowfullscreen></iframe>';
+}
+
+export function phraseTitle(phrase: string, language: string): string {
+  const suffix = language === DEFAULT_LANGUAGE ? '' : ` (${getLanguageName(language)})`;
+  return `“${phrase}” in movies and TV${suffix}`;
+}
+
+// Reads the phrase from a link to the search page or the embed player; null
+// for any other page
+export function parseSharedPhrase(url: URL): SharedPhrase | null {
+  if (url.pathname !== '/' && url.pathname !== '/embed') return null;
+  const phrase = url.searchParams.get('phrase')?.trim();
+  if (!phrase) return null;
+
+  return {
+    phrase,
+    language: url.searchParams.get('language') || DEFAULT_LANGUAGE,
+    tight: url.searchParams.get('tight') === '1',
+    padding: parsePadding(url.searchParams.get('padding')),
+  };
+}
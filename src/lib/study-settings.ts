@@ -0,0 +1,25 @@
+// Study mode preferences, kept in localStorage like recent searches.
+// Client-only; reads fall back to the defaults when storage is unavailable.
+
+const TRANSLATE_TO_KEY = 'phrase-to-clip:translate-to';
+
+// Language to translate subtitle lines into, or null for no translation line
+export function loadTranslateTo(): string | null {
+  try {
+    return window.localStorage.getItem(TRANSLATE_TO_KEY) || null;
+  } catch {
+    return null;
+  }
+}
+
+export function saveTranslateTo(language: string | null) {
+  try {
+    if (language) {
+      window.localStorage.setItem(TRANSLATE_TO_KEY, language);
+    } else {
+      window.localStorage.removeItem(TRANSLATE_TO_KEY);
+    }
+  } catch {
+    // Storage disabled; the choice lasts until the page is left
+  }
+}
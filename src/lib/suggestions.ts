@@ -0,0 +1,64 @@
+import type { RecentSearch } from '@/lib/search-history';
+
+// Autosuggest for the search box: the user's own recent searches first, then
+// well-known phrases that are sure to have clips.
+
+const POPULAR_PHRASES: Record<string, string[]> = {
+  en: [
+    'are you kidding me',
+    'give me a break',
+    'here we go again',
+    'i have a bad feeling about this',
+    'i love you',
+    'i will be back',
+    'leave me alone',
+    'let it go',
+    'nice to meet you',
+    'oh my god',
+    'see you later',
+    'that is not fair',
+    'we need to talk',
+    'what are you doing',
+    'where are you going',
+    'you can do it',
+  ],
+  es: ['buenos días', 'lo siento', 'no pasa nada', 'te quiero', 'vamos a ver'],
+  fr: ["c'est la vie", 'je ne sais pas', "je t'aime", 'mon dieu', 'pas de problème'],
+  de: ['ich liebe dich', 'keine ahnung', 'na und', 'wie geht es dir'],
+};
+
+const MAX_SUGGESTIONS = 8;
+
+// Prefix matches rank above matches at a later word boundary
+function matchRank(candidate: string, query: string): number {
+  const text = candidate.toLowerCase();
+  if (text.startsWith(query)) return 0;
+  if (text.includes(` ${query}`)) return 1;
+  return -1;
+}
+
+export function getSuggestions(input: string, language: string, recent: RecentSearch[]): string[] {
+  const query = input.trim().toLowerCase();
+  const recentPhrases = recent.filter((entry) => entry.language === language).map((entry) => entry.phrase);
+
+  if (!query) {
+    return recentPhrases.slice(0, MAX_SUGGESTIONS);
+  }
+
+  const seen = new Set<string>([query]);
+  const ranked: { phrase: string; rank: number }[] = [];
+  for (const [source, phrases] of [[0, recentPhrases], [2, POPULAR_PHRASES[language] ?? []]] as const) {
+    for (const phrase of phrases) {
+      const rank = matchRank(phrase, query);
+      const key = phrase.toLowerCase();
+      if (rank < 0 || seen.has(key)) continue;
+      seen.add(key);
+      ranked.push({ phrase, rank: source + rank });
+    }
+  }
+
+  return ranked
+    .sort((a, b) => a.rank - b.rank)
+    .slice(0, MAX_SUGGESTIONS)
+    .map((entry) => entry.phrase);
+}
@@ -0,0 +1,84 @@
+import { ApiError } from '@/lib/api-error';
+import { ConfigError, type AppConfig, type TranslationConfig } from '@/lib/config';
+import { isSupportedLanguage, LANGUAGES } from '@/lib/languages';
+import { logger } from '@/lib/logger';
+import { upstreamFetch } from '@/lib/upstream-fetch';
+import { isRecord, parseJson } from '@/lib/validation';
+
+// Translates subtitle lines for study mode through a LibreTranslate-compatible
+// service (`POST /translate` with `{ q, source, target }`). Lines are short
+// and repeat across visitors, so the route lets the edge cache the answers.
+
+export interface TranslateQuery {
+  text: string;
+  from: string;
+  to: string;
+}
+
+const TRANSLATE_UPSTREAM = 'translate';
+const TRANSLATE_TIMEOUT_MS = 5000;
+const MAX_TEXT_LENGTH = 500;
+
+export function requireTranslation(config: AppConfig): TranslationConfig {
+  if (!config.translation) {
+    throw new ConfigError(
+      'Invalid configuration: TRANSLATE_API_URL is not set, so translations are unavailable',
+      ['TRANSLATE_API_URL']
+    );
+  }
+  return config.translation;
+}
+
+export function parseTranslateQuery(searchParams: URLSearchParams): TranslateQuery {
+  const text = searchParams.get('text')?.trim();
+  if (!text) {
+    throw new ApiError('INVALID_PARAMS', 'Missing required parameter: text');
+  }
+  if (text.length > MAX_TEXT_LENGTH) {
+    throw new ApiError('INVALID_PARAMS', `Invalid parameter: text must be at most ${MAX_TEXT_LENGTH} characters`);
+  }
+
+  const from = searchParams.get('from') ?? '';
+  const to = searchParams.get('to') ?? '';
+  for (const [name, code] of [['from', from], ['to', to]]) {
+    if (!isSupportedLanguage(code)) {
+      throw new ApiError('INVALID_PARAMS', `Invalid parameter: ${name} must be one of ${LANGUAGES.map((language) => language.code).join(', ')}`);
+    }
+  }
+  if (from === to) {
+    throw new ApiError('INVALID_PARAMS', 'Invalid parameter: from and to must differ');
+  }
+
+  return { text, from, to };
+}
+
+export async function translate(query: TranslateQuery, config: AppConfig): Promise<string> {
+  const { url, apiKey } = requireTranslation(config);
+
+  const response = await upstreamFetch(`${url}/translate`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify({
+      q: query.text,
+      source: query.from,
+      target: query.to,
+      format: 'text',
+      ...(apiKey && { api_key: apiKey }),
+    }),
+  }, { upstream: TRANSLATE_UPSTREAM, timeoutMs: TRANSLATE_TIMEOUT_MS, retries: 0 });
+
+  if (!response.ok) {
+    // The body is only logged; it never reaches the client
+    const errorText = await response.text().catch(() => response.statusText);
+    logger.debug('Translate API error response', { status: response.status, body: errorText.substring(0, 500) });
+    throw response.status >= 500
+      ? new ApiError('UPSTREAM_UNAVAILABLE', 'The translation service is having problems')
+      : new ApiError('UPSTREAM_BAD_RESPONSE', `The translation service returned an unexpected ${response.status} response`);
+  }
+
+  const data = parseJson(await response.text(), 'Translate API response');
+  if (!isRecord(data) || typeof data.translatedText !== 'string') {
+    throw new ApiError('UPSTREAM_BAD_RESPONSE', 'The translation service returned no translation');
+  }
+  return data.translatedText;
+}
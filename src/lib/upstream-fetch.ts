@@ -0,0 +1,189 @@
+import { logger } from '@/lib/logger';
+
+// fetch() wrapper for upstream APIs: per-call timeouts, bounded retries with
+// jittered backoff on 5xx/network errors, and a per-upstream circuit breaker
+// that fails fast while the upstream is down. Breaker state is per isolate.
+
+export interface UpstreamFetchOptions {
+  // Names the circuit breaker and log lines, e.g. "playphrase"
+  upstream: string;
+  timeoutMs?: number;
+  // Extra attempts after the first; only GETs should be retried
+  retries?: number;
+  // Hand back the body unread, for large media piped straight to the client.
+  // The timeout then only covers the response headers.
+  stream?: boolean;
+}
+
+// An upstream answered with an error status. The message carries the status
+// line only; upstream bodies are logged at debug level, never surfaced.
+export class UpstreamHttpError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'UpstreamHttpError';
+    this.status = status;
+  }
+}
+
+// The upstream rejected our credentials (401/403)
+export class UpstreamAuthError extends UpstreamHttpError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'UpstreamAuthError';
+  }
+}
+
+export class UpstreamTimeoutError extends Error {
+  constructor(upstream: string, timeoutMs: number) {
+    super(`${upstream} did not respond within ${timeoutMs}ms`);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+export class CircuitOpenError extends Error {
+  readonly retryAfterSeconds: number;
+
+  constructor(upstream: string, retryAfterSeconds: number) {
+    super(`${upstream} is unavailable; skipping request while its circuit is open`);
+    this.name = 'CircuitOpenError';
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+}
+
+interface BreakerState {
+  consecutiveFailures: number;
+  // While in the future the circuit is open; once passed, calls are let
+  // through as trials and the first success closes it again
+  openUntil: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 8000;
+const DEFAULT_RETRIES = 2;
+const BASE_BACKOFF_MS = 200;
+const MAX_BACKOFF_MS = 2000;
+// Consecutive failed calls (after retries) that open the circuit
+const FAILURE_THRESHOLD = 5;
+const COOLDOWN_MS = 30_000;
+// Responses that can't be rebuilt with a body, even an empty one
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+const breakers = new Map<string, BreakerState>();
+
+function getBreaker(upstream: string): BreakerState {
+  let breaker = breakers.get(upstream);
+  if (!breaker) {
+    breaker = { consecutiveFailures: 0, openUntil: 0 };
+    breakers.set(upstream, breaker);
+  }
+  return breaker;
+}
+
+function recordSuccess(upstream: string) {
+  const breaker = getBreaker(upstream);
+  if (breaker.openUntil > 0) {
+    logger.info('Upstream circuit closed', { upstream });
+  }
+  breaker.consecutiveFailures = 0;
+  breaker.openUntil = 0;
+}
+
+function recordFailure(upstream: string) {
+  const breaker = getBreaker(upstream);
+  breaker.consecutiveFailures++;
+  if (breaker.consecutiveFailures >= FAILURE_THRESHOLD) {
+    breaker.openUntil = Date.now() + COOLDOWN_MS;
+    logger.warn('Upstream circuit opened', { upstream, consecutiveFailures: breaker.consecutiveFailures, cooldownMs: COOLDOWN_MS });
+  }
+}
+
+export function getCircuitStatus(upstream: string) {
+  const breaker = getBreaker(upstream);
+  const now = Date.now();
+  return {
+    state: breaker.openUntil > now ? 'open' : breaker.openUntil > 0 ? 'half-open' : 'closed',
+    consecutiveFailures: breaker.consecutiveFailures,
+    openUntil: breaker.openUntil > 0 ? new Date(breaker.openUntil).toISOString() : null,
+  };
+}
+
+// "Full jitter" backoff: a random delay up to the exponential cap
+function backoffDelay(attempt: number): number {
+  return Math.random() * Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (attempt - 1));
+}
+
+// The body is read before the timer is cleared, so an upstream that sends
+// headers and then stalls still times out (and counts against its circuit)
+async function fetchWithTimeout(
+  url: string,
+  init: RequestInit,
+  upstream: string,
+  timeoutMs: number,
+  stream: boolean
+): Promise<Response> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    if (stream) return response;
+    const body = NULL_BODY_STATUSES.has(response.status) ? null : await response.arrayBuffer();
+    return new Response(body, { status: response.status, statusText: response.statusText, headers: response.headers });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new UpstreamTimeoutError(upstream, timeoutMs);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+// Resolves with the upstream response, including non-5xx error statuses for
+// the caller to interpret. Throws on network errors, timeouts and an open circuit.
+// A 5xx that persists through every retry is returned as-is.
+export async function upstreamFetch(url: string, init: RequestInit, options: UpstreamFetchOptions): Promise<Response> {
+  const { upstream, timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, stream = false } = options;
+
+  const breaker = getBreaker(upstream);
+  const now = Date.now();
+  if (breaker.openUntil > now) {
+    throw new CircuitOpenError(upstream, Math.ceil((breaker.openUntil - now) / 1000));
+  }
+
+  let lastError: unknown;
+  for (let attempt = 0; attempt <= retries; attempt++) {
+    if (attempt > 0) {
+      const delay = backoffDelay(attempt);
+      logger.debug('Retrying upstream request', { upstream, attempt, delayMs: Math.round(delay) });
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+
+    try {
+      const response = await fetchWithTimeout(url, init, upstream, timeoutMs, stream);
+      if (response.status < 500) {
+        recordSuccess(upstream);
+        return response;
+      }
+
+      if (attempt === retries) {
+        recordFailure(upstream);
+        return response;
+      }
+      // Discard the body so the connection can be reused
+      await response.body?.cancel();
+      lastError = new Error(`${upstream} responded ${response.status}`);
+    } catch (error) {
+      lastError = error;
+    }
+
+    logger.warn('Upstream request failed', {
+      upstream,
+      attempt,
+      error: lastError instanceof Error ? lastError.message : String(lastError),
+    });
+  }
+
+  recordFailure(upstream);
+  throw lastError;
+}
@@ -0,0 +1,78 @@
+// Minimal helpers for validating untrusted (upstream) JSON without pulling in
+// a schema library. Readers record problems as issues instead of throwing so
+// a single bad item doesn't take down the whole response.
+
+export interface ValidationIssue {
+  // Dotted path into the parsed document, e.g. "phrases[3].words[0].start"
+  path: string;
+  message: string;
+}
+
+export interface ParseResult<T> {
+  value: T;
+  // Which of the known upstream shapes the document matched
+  shape: string;
+  // Non-fatal problems, e.g. items that were dropped
+  issues: ValidationIssue[];
+}
+
+export class UpstreamValidationError extends Error {
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, issues: ValidationIssue[]) {
+    super(message);
+    this.name = 'UpstreamValidationError';
+    this.issues = issues;
+  }
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+export function parseJson(text: string, what: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new UpstreamValidationError(`${what} is not valid JSON`, [
+      { path: '', message: `Expected JSON, got ${text.length} bytes of unparseable text` },
+    ]);
+  }
+}
+
+// Reads a required string. Numbers are accepted and stringified since
+// upstream ids flip between the two.
+export function readString(obj: Record<string, unknown>, key: string, path: string, issues: ValidationIssue[]): string | undefined {
+  const value = obj[key];
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' && Number.isFinite(value)) return String(value);
+  issues.push({ path: `${path}.${key}`, message: `Expected string, got ${describeType(value)}` });
+  return undefined;
+}
+
+// Reads an optional finite number, recording an issue only when the field
+// is present with the wrong type.
+export function readOptionalNumber(obj: Record<string, unknown>, key: string, path: string, issues: ValidationIssue[]): number | undefined {
+  const value = obj[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  issues.push({ path: `${path}.${key}`, message: `Expected number, got ${describeType(value)}` });
+  return undefined;
+}
+
+// Returns the first of `keys` holding a non-empty string, along with the key that matched.
+export function readFirstString(obj: Record<string, unknown>, keys: readonly string[]): { key: string; value: string } | undefined {
+  for (const key of keys) {
+    const value = obj[key];
+    if (typeof value === 'string' && value !== '') {
+      return { key, value };
+    }
+  }
+  return undefined;
+}
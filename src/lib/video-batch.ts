@@ -0,0 +1,140 @@
+import { ApiError, toApiError, toErrorBody } from '@/lib/api-error';
+import type { AppConfig } from '@/lib/config';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import { logger } from '@/lib/logger';
+import { isRecord } from '@/lib/validation';
+import {
+  loadVideos,
+  parseVideosQuery,
+  type LoadVideosOptions,
+  type SessionPool,
+  type VideosBody,
+  type VideosQuery,
+} from '@/lib/video-search';
+
+// Many /api/videos searches in one request, for tooling that needs clips for
+// hundreds of phrases. Each item takes the same parameters as the query
+// string of /api/videos, goes through the same cache, and every search shares
+// one upstream session per provider.
+
+export const MAX_BATCH_ITEMS = 500;
+// Searches in flight at once; each also resolves up to
+// VIDEO_DETAILS_CONCURRENCY video URLs
+const BATCH_CONCURRENCY = 4;
+const BATCH_ITEM_KEYS = ['phrase', 'language', 'limit', 'cursor', 'provider', 'tight', 'padding', 'filter', 'exclude', 'fuzzy'];
+
+// One NDJSON line per item, in completion order; `index` is the item's
+// position in the request. The last line is a summary.
+export type BatchLine =
+  | ({ index: number; phrase: string; language: string; cacheStatus: string } & VideosBody)
+  | { index: number; phrase: unknown; language: unknown; error: ReturnType<typeof toErrorBody> }
+  | { done: true; total: number; failed: number };
+
+interface BatchItem {
+  raw: unknown;
+  // Null when the item failed validation; `error` says why
+  query: VideosQuery | null;
+  error?: ApiError;
+}
+
+// Items are validated like query strings: numbers and booleans are accepted
+// where /api/videos takes "5", "1" or "0"
+function toSearchParams(item: Record<string, unknown>): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const key of BATCH_ITEM_KEYS) {
+    const value = item[key];
+    if (typeof value === 'string' || typeof value === 'number') {
+      params.set(key, String(value));
+    } else if (typeof value === 'boolean') {
+      params.set(key, value ? '1' : '0');
+    } else if (Array.isArray(value) && (key === 'filter' || key === 'exclude')) {
+      params.set(key, value.join(','));
+    }
+  }
+  return params;
+}
+
+// Rejects the whole batch only when its shape is wrong; a bad item fails on
+// its own line so one typo doesn't cost the rest of the batch
+export function parseBatchRequest(body: unknown): BatchItem[] {
+  const items = isRecord(body) ? body.items : body;
+  if (!Array.isArray(items)) {
+    throw new ApiError('INVALID_PARAMS', 'Expected a JSON array of { phrase, language, limit } objects');
+  }
+  if (items.length === 0 || items.length > MAX_BATCH_ITEMS) {
+    throw new ApiError('INVALID_PARAMS', `A batch needs between 1 and ${MAX_BATCH_ITEMS} items`);
+  }
+
+  return items.map((raw): BatchItem => {
+    if (!isRecord(raw)) {
+      return { raw, query: null, error: new ApiError('INVALID_PARAMS', 'Expected an object with a phrase') };
+    }
+    try {
+      return { raw, query: parseVideosQuery(toSearchParams(raw)) };
+    } catch (error) {
+      return { raw, query: null, error: toApiError(error) };
+    }
+  });
+}
+
+function errorLine(index: number, raw: unknown, error: ApiError): BatchLine {
+  const item = isRecord(raw) ? raw : {};
+  return { index, phrase: item.phrase, language: item.language, error: toErrorBody(error) };
+}
+
+// Streams results as they complete, so the response starts immediately and
+// a large batch isn't one long wait for a single body. Items that fall back
+// to looser variants are charged through `chargeFallback`.
+export function streamBatch(
+  items: BatchItem[],
+  config: AppConfig,
+  chargeFallback?: LoadVideosOptions['chargeFallback']
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const sessions: SessionPool = new Map();
+  // Set when the client goes away; the remaining items are skipped
+  let cancelled = false;
+
+  return new ReadableStream({
+    async start(controller) {
+      const write = (line: BatchLine) => {
+        if (!cancelled) {
+          controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+        }
+      };
+      let failed = 0;
+
+      await mapWithConcurrency(items, BATCH_CONCURRENCY, async ({ raw, query, error }, index) => {
+        if (cancelled) return;
+        if (!query) {
+          failed++;
+          write(errorLine(index, raw, error ?? new ApiError('INVALID_PARAMS', 'Invalid item')));
+          return;
+        }
+
+        try {
+          const { result, cacheStatus } = await loadVideos(query, config, { sessions, chargeFallback });
+          const body = JSON.parse(result.body) as VideosBody;
+          write({ index, phrase: query.phrase, language: query.language, cacheStatus, ...body });
+        } catch (err) {
+          failed++;
+          const apiError = toApiError(err);
+          if (apiError.status >= 500) {
+            logger.error('Batch item failed', { index, code: apiError.code, error: err });
+          }
+          write(errorLine(index, raw, apiError));
+        }
+      });
+
+      logger.info('Batch finished', { total: items.length, failed, cancelled });
+      if (!cancelled) {
+        write({ done: true, total: items.length, failed });
+        controller.close();
+      }
+    },
+
+    cancel() {
+      cancelled = true;
+    },
+  });
+}
@@ -0,0 +1,386 @@
+import { ApiError, toApiError } from '@/lib/api-error';
+import { DEFAULT_TIGHT_PADDING_MS, MAX_TIGHT_PADDING_MS, toSubtitle, type Clip, type Subtitle } from '@/lib/clip';
+import { clipProxyPath, rememberClipUrl, rememberProxiedUrls } from '@/lib/clip-proxy';
+import { mapWithConcurrency } from '@/lib/concurrency';
+import type { AppConfig } from '@/lib/config';
+import { DEFAULT_LANGUAGE, isSupportedLanguage } from '@/lib/languages';
+import { logger } from '@/lib/logger';
+import { buildPhraseVariants, type PhraseMatch, type PhraseVariant } from '@/lib/phrase-variants';
+import { resolveProviders, type ClipProvider, type ProviderSession, type SearchOptions } from '@/lib/providers';
+import { computeEtag, getCachedVideos, putCachedVideos, type CachedBody, type VideosCacheKey } from '@/lib/response-cache';
+
+// The search pipeline behind /api/videos, shared with the routes that work
+// on the same pages of results (subtitle export and friends), so they all
+// see the same clips in the same order and share the response cache.
+
+interface VideoItem {
+  url: string;
+  subtitle: Subtitle;
+}
+
+// Something that went wrong without failing the whole request
+export interface ResponseWarning {
+  code: 'VIDEO_LOOKUP_FAILED' | 'PROVIDER_FAILED';
+  provider: string;
+  clipId?: string;
+  message: string;
+}
+
+interface ProviderPage {
+  videos: VideoItem[];
+  // True when the provider returned a full page, so another page may exist
+  hasMore: boolean;
+  warnings: ResponseWarning[];
+}
+
+export interface VideosQuery {
+  phrase: string;
+  language: string;
+  limit: number;
+  skip: number;
+  providers: ClipProvider[];
+  // Set by `tight=1`: each subtitle gets the span of the searched words plus
+  // this much padding (ms), for clients that want to play just the phrase
+  tightPadding: number | null;
+  // Lowercased terms matched against each clip's source title and genres.
+  // With `filter`, only clips matching one of the terms are kept; `exclude`
+  // drops clips matching any of its terms.
+  filter: string[];
+  exclude: string[];
+  // Index into the phrase's variants (see phrase-variants.ts) to search with.
+  // Null lets the search fall back through them when nothing matches; later
+  // pages pin the variant the first page matched through their cursor.
+  variant: number | null;
+}
+
+// The /api/videos response body
+export interface VideosBody {
+  videos: string[];
+  subtitles: Subtitle[];
+  nextCursor: string | null;
+  // Set when nothing matched the phrase as typed and a looser variant did
+  match?: PhraseMatch;
+  warnings?: ResponseWarning[];
+}
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+// Sessions by provider name, for callers that run many searches in one
+// request and want them all to use the same credentials
+export type SessionPool = Map<string, Promise<ProviderSession>>;
+
+export interface LoadVideosOptions {
+  // Skip the cache read but still refresh the cached copy
+  fresh?: boolean;
+  sessions?: SessionPool;
+  // Called before each fallback variant is searched, since each is another
+  // upstream search; routes charge a rate-limit token here
+  chargeFallback?: () => Promise<void>;
+}
+
+const DEFAULT_LIMIT = 5;
+const MAX_LIMIT = 20;
+const MAX_FILTER_TERMS = 10;
+const MAX_FILTER_TERM_LENGTH = 100;
+
+// Parses a non-negative integer query value, falling back when absent.
+// Returns null when the value is present but not a valid integer.
+export function parseIntParam(value: string | null, fallback: number): number | null {
+  if (value === null || value === '') return fallback;
+  if (!/^\d+$/.test(value)) return null;
+  return parseInt(value, 10);
+}
+
+// Cursors are `<skip>`, or `<skip>~<variant>` once a fallback variant matched
+function parseCursor(value: string | null): { skip: number; variant: number | null } | null {
+  if (value === null || value === '') return { skip: 0, variant: null };
+  const match = /^(\d+)(?:~(\d+))?$/.exec(value);
+  if (!match) return null;
+  const skip = parseInt(match[1], 10);
+  if (match[2] !== undefined) return { skip, variant: parseInt(match[2], 10) };
+  // Past the first page the phrase as typed already matched
+  return { skip, variant: skip > 0 ? 0 : null };
+}
+
+function formatCursor(skip: number, variant: number): string {
+  return variant > 0 ? `${skip}~${variant}` : String(skip);
+}
+
+// Parses a comma-separated list of source filter terms
+function parseFilterTerms(name: string, value: string | null): string[] {
+  const terms = (value ?? '').split(',').map((term) => term.trim().toLowerCase()).filter(Boolean);
+  if (terms.length > MAX_FILTER_TERMS || terms.some((term) => term.length > MAX_FILTER_TERM_LENGTH)) {
+    throw new ApiError(
+      'INVALID_PARAMS',
+      `Invalid parameter: ${name} takes at most ${MAX_FILTER_TERMS} terms of up to ${MAX_FILTER_TERM_LENGTH} characters`
+    );
+  }
+  return terms;
+}
+
+function matchesSourceFilters(clip: Clip, filter: string[], exclude: string[]): boolean {
+  if (filter.length === 0 && exclude.length === 0) return true;
+
+  const haystack = [clip.movie?.title, ...(clip.movie?.genres ?? [])]
+    .filter((value): value is string => value !== undefined)
+    .map((value) => value.toLowerCase());
+  const matches = (term: string) => haystack.some((value) => value.includes(term));
+
+  // Clips without source data can't match a filter, and are never excluded
+  if (filter.length > 0 && !filter.some(matches)) return false;
+  return !exclude.some(matches);
+}
+
+export function parseVideosQuery(searchParams: URLSearchParams): VideosQuery {
+  const phrase = searchParams.get('phrase');
+  const language = searchParams.get('language') || DEFAULT_LANGUAGE;
+
+  if (!phrase) {
+    throw new ApiError('INVALID_PARAMS', 'Missing required parameter: phrase');
+  }
+  if (!isSupportedLanguage(language)) {
+    throw new ApiError('INVALID_PARAMS', `Unsupported language: ${language} (see /api/languages)`);
+  }
+
+  // `cursor` is the opaque form returned as `nextCursor`; `skip` is accepted as an alias
+  const limit = parseIntParam(searchParams.get('limit'), DEFAULT_LIMIT);
+  const cursor = parseCursor(searchParams.get('cursor') ?? searchParams.get('skip'));
+
+  if (limit === null || limit < 1 || limit > MAX_LIMIT) {
+    throw new ApiError('INVALID_PARAMS', `Invalid parameter: limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+  if (cursor === null) {
+    throw new ApiError('INVALID_PARAMS', 'Invalid parameter: cursor must be a value returned as nextCursor');
+  }
+  const { skip } = cursor;
+  // `fuzzy=0` searches only for the phrase as typed
+  const variant = searchParams.get('fuzzy') === '0' ? 0 : cursor.variant;
+
+  const { providers, unknown } = resolveProviders(searchParams.get('provider'));
+  if (unknown.length > 0 || providers.length === 0) {
+    throw new ApiError('INVALID_PARAMS', `Unknown provider: ${unknown.join(', ') || '(empty)'}`);
+  }
+
+  let tightPadding: number | null = null;
+  if (searchParams.get('tight') === '1') {
+    tightPadding = parseIntParam(searchParams.get('padding'), DEFAULT_TIGHT_PADDING_MS);
+    if (tightPadding === null || tightPadding > MAX_TIGHT_PADDING_MS) {
+      throw new ApiError('INVALID_PARAMS', `Invalid parameter: padding must be an integer between 0 and ${MAX_TIGHT_PADDING_MS}`);
+    }
+  }
+
+  const filter = parseFilterTerms('filter', searchParams.get('filter'));
+  const exclude = parseFilterTerms('exclude', searchParams.get('exclude'));
+
+  return { phrase, language, limit, skip, providers, tightPadding, filter, exclude, variant };
+}
+
+function acquireSession(provider: ClipProvider, pool?: SessionPool): Promise<ProviderSession> {
+  if (!pool) return provider.getSession();
+
+  let session = pool.get(provider.name);
+  if (!session) {
+    session = provider.getSession();
+    pool.set(provider.name, session);
+  }
+  return session;
+}
+
+// Runs one provider end to end: session, search, source filters, then
+// resolve any clips that came back without a direct video URL, at most
+// `concurrency` at a time.
+async function fetchFromProvider(
+  provider: ClipProvider,
+  query: VideosQuery,
+  phrase: string,
+  options: SearchOptions,
+  concurrency: number,
+  sessions?: SessionPool
+): Promise<ProviderPage> {
+  const { language, tightPadding, filter, exclude } = query;
+  const session = await acquireSession(provider, sessions);
+
+  logger.debug('Using session for search', {
+    provider: provider.name,
+    hasCookies: !!session.cookies,
+    hasCsrfToken: !!session.csrfToken,
+  });
+
+  const { limit } = options;
+  const clips = await provider.search(phrase, language, options, session);
+  // Filtered before resolving so dropped clips cost no video lookups
+  const kept = clips.slice(0, Math.min(limit, clips.length)).filter((clip) => matchesSourceFilters(clip, filter, exclude));
+
+  logger.info('Processing search results', { provider: provider.name, count: clips.length, kept: kept.length });
+
+  const warnings: ResponseWarning[] = [];
+  const toItem = (clip: Clip, url: string): VideoItem => {
+    rememberClipUrl(provider.name, clip.id, url);
+    return { url, subtitle: { ...toSubtitle(clip, tightPadding), proxy: clipProxyPath(provider.name, clip.id) } };
+  };
+
+  // Process up to `limit` results (or fewer if less are available)
+  const resolvedData = await mapWithConcurrency(
+    kept,
+    concurrency,
+    async (clip, index): Promise<VideoItem | null> => {
+      if (clip.url) {
+        logger.debug('Found video URL in search result', { provider: provider.name, index, url: clip.url });
+        return toItem(clip, clip.url);
+      }
+
+      // Fallback: if no direct video URL, try to fetch it using the clip ID
+      logger.debug('No direct video URL, resolving by clip id', { provider: provider.name, clipId: clip.id });
+      try {
+        const url = await provider.resolveVideoUrl(clip.id, session);
+        return toItem(clip, url);
+      } catch (error) {
+        logger.error('Failed to resolve video URL', { provider: provider.name, clipId: clip.id, error });
+        warnings.push({
+          code: 'VIDEO_LOOKUP_FAILED',
+          provider: provider.name,
+          clipId: clip.id,
+          message: toApiError(error).message,
+        });
+        return null;
+      }
+    }
+  );
+
+  return {
+    videos: resolvedData.filter((item): item is VideoItem => item !== null && item.url !== ''),
+    hasMore: clips.length >= limit,
+    warnings,
+  };
+}
+
+// Searches every requested provider for one variant of the phrase
+async function searchVariant(
+  query: VideosQuery,
+  variant: PhraseVariant,
+  config: AppConfig,
+  sessions?: SessionPool
+): Promise<{ videos: VideoItem[]; hasMore: boolean; warnings: ResponseWarning[] }> {
+  const { limit, skip, providers } = query;
+  const options: SearchOptions = { limit, skip, exact: variant.exact };
+
+  // Query every requested provider and merge in the order they were listed.
+  // Each provider is paged independently with the same skip/limit window.
+  // A provider that fails outright becomes a warning as long as another one answered
+  const settled = await Promise.allSettled(
+    providers.map((provider) => fetchFromProvider(provider, query, variant.phrase, options, config.videoDetailsConcurrency, sessions))
+  );
+  const pages: ProviderPage[] = [];
+  const warnings: ResponseWarning[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      pages.push(outcome.value);
+      warnings.push(...outcome.value.warnings);
+    } else {
+      logger.error('Provider failed', { provider: providers[i].name, error: outcome.reason });
+      warnings.push({ code: 'PROVIDER_FAILED', provider: providers[i].name, message: toApiError(outcome.reason).message });
+    }
+  });
+  if (pages.length === 0) {
+    throw (settled[0] as PromiseRejectedResult).reason;
+  }
+
+  return {
+    videos: pages.flatMap((page) => page.videos),
+    hasMore: pages.some((page) => page.hasMore),
+    warnings,
+  };
+}
+
+async function searchVideos(
+  query: VideosQuery,
+  config: AppConfig,
+  { sessions, chargeFallback }: LoadVideosOptions
+): Promise<VideosBody> {
+  const { phrase, language, limit, skip } = query;
+  const variants = buildPhraseVariants(phrase, language);
+  if (query.variant !== null && query.variant >= variants.length) {
+    throw new ApiError('INVALID_PARAMS', 'Invalid parameter: cursor must be a value returned as nextCursor');
+  }
+
+  // Only an empty result moves on to the next variant; a page that source
+  // filters emptied still has more pages of the same variant behind it. An
+  // empty result with upstream failures says nothing about the phrase, so
+  // that stops the cascade too.
+  const candidates = query.variant === null ? variants.map((_, index) => index) : [query.variant];
+  let variantIndex = candidates[0];
+  let found = await searchVariant(query, variants[variantIndex], config, sessions);
+  for (const index of candidates.slice(1)) {
+    if (found.videos.length > 0 || found.hasMore || found.warnings.length > 0) break;
+    await chargeFallback?.();
+    logger.info('No results, trying a looser query', { strategy: variants[index].strategy, phrase: variants[index].phrase });
+    variantIndex = index;
+    found = await searchVariant(query, variants[index], config, sessions);
+  }
+
+  const { videos: validVideos, warnings } = found;
+  const nextCursor = found.hasMore ? formatCursor(skip + limit, variantIndex) : null;
+
+  if (validVideos.length === 0 && !nextCursor) {
+    logger.info('No results found', { phrase, language });
+    throw new ApiError(
+      'NO_RESULTS',
+      language === 'en'
+        ? 'No English videos found. The API may have limited English content or require a subscription for English.'
+        : `No videos found for phrase "${phrase}" in language "${language}"`,
+      warnings.length > 0 ? { details: { warnings } } : {}
+    );
+  }
+
+  return {
+    videos: validVideos.map(item => item.url),
+    subtitles: validVideos.map(item => item.subtitle),
+    nextCursor,
+    ...(variantIndex > 0 && { match: { phrase: variants[variantIndex].phrase, strategy: variants[variantIndex].strategy } }),
+    ...(warnings.length > 0 && { warnings }),
+  };
+}
+
+// Returns the serialized response body for a page of results, from the
+// cache when possible
+export async function loadVideos(
+  query: VideosQuery,
+  config: AppConfig,
+  options: LoadVideosOptions = {}
+): Promise<{ result: CachedBody; cacheStatus: CacheStatus }> {
+  const { fresh = false } = options;
+  const cacheKey: VideosCacheKey = {
+    providers: query.providers.map((p) => p.name),
+    phrase: query.phrase,
+    language: query.language,
+    limit: query.limit,
+    cursor: query.skip,
+    tightPadding: query.tightPadding,
+    filter: query.filter,
+    exclude: query.exclude,
+    variant: query.variant,
+  };
+
+  if (!fresh) {
+    const cached = await getCachedVideos(cacheKey);
+    if (cached) {
+      // The player streams these clips through the proxy next
+      const { videos, subtitles } = JSON.parse(cached.body) as VideosBody;
+      rememberProxiedUrls(videos, subtitles.map((subtitle) => subtitle.proxy));
+      return { result: cached, cacheStatus: 'HIT' };
+    }
+  }
+
+  const data = await searchVideos(query, config, options);
+  const body = JSON.stringify(data);
+  const result = { body, etag: await computeEtag(body) };
+
+  // Only complete results are cached. Empty ones became NO_RESULTS above and
+  // are never cached, since they're often a transient auth problem; partial
+  // ones would pin the failure for the whole TTL.
+  if (!data.warnings) {
+    putCachedVideos(cacheKey, result, config.videosCacheTtl);
+  }
+
+  return { result, cacheStatus: fresh ? 'BYPASS' : 'MISS' };
+}